@@ -0,0 +1,172 @@
+import * as path from 'path';
+import {
+    window,
+    workspace,
+    Event,
+    EventEmitter,
+    Range,
+    ThemeIcon,
+    TreeDataProvider,
+    TreeItem,
+    TreeItemCollapsibleState,
+    Uri,
+} from 'vscode';
+
+import { LanguageClient } from 'vscode-languageclient';
+
+interface LspRange {
+    start: { line: number; character: number };
+    end: { line: number; character: number };
+}
+
+interface DeprecatedApi {
+    api: string;
+    removedIn: string | null;
+    count: number;
+    findings: { uri: string; range: LspRange; message: string }[];
+}
+
+interface ExtensionDeprecations {
+    name: string;
+    type: string | null;
+    directory: string | null;
+    count: number;
+    apis: DeprecatedApi[];
+}
+
+// The findings of the scanned folders, as returned by the drupalCheck/getDeprecations request.
+interface DeprecationTree {
+    versions: string[];
+    extensions: ExtensionDeprecations[];
+}
+
+export interface DeprecationNode {
+    item: TreeItem;
+    children: DeprecationNode[];
+    // The folder a re-scan of the node covers, if any.
+    folder?: string;
+    // The files a re-scan of the node covers, when it has no folder.
+    uris?: string[];
+}
+
+/**
+ * Lists the findings of the scanned folders by extension, deprecated API and
+ * location, optionally only those blocking an upgrade to a Drupal version.
+ */
+export class DeprecationsProvider implements TreeDataProvider<DeprecationNode> {
+
+    private changeEmitter: EventEmitter<DeprecationNode | undefined> = new EventEmitter();
+    private refreshTimer: NodeJS.Timer | null = null;
+    private targetVersion: string | null = null;
+    // The removal versions found by the last request, for the filter.
+    private versions: string[] = [];
+
+    public readonly onDidChangeTreeData: Event<DeprecationNode | undefined> = this.changeEmitter.event;
+
+    constructor(private client: LanguageClient) {
+        // Start from the version the project upgrades to, when configured.
+        this.targetVersion = workspace.getConfiguration('drupalCheck').get<string>('targetCoreVersion') || null;
+    }
+
+    /**
+     * Reload the tree shortly, so a burst of validations reloads it once.
+     */
+    public refresh(): void {
+        if (this.refreshTimer !== null) {
+            clearTimeout(this.refreshTimer);
+        }
+        this.refreshTimer = setTimeout(() => {
+            this.refreshTimer = null;
+            this.changeEmitter.fire(undefined);
+        }, 500);
+    }
+
+    /**
+     * Ask for the Drupal version to filter by.
+     */
+    public async chooseTargetVersion(): Promise<void> {
+        const majors = Array.from(new Set(this.versions.map(version => version.split('.')[0])));
+        const items: { label: string; version: string | null }[] = [{ label: 'All versions', version: null }];
+        majors.forEach(major => items.push({ label: `Drupal ${major}`, version: major }));
+        const picked = await window.showQuickPick(items, { placeHolder: 'Show findings blocking an upgrade to' });
+        if (picked) {
+            this.targetVersion = picked.version;
+            this.changeEmitter.fire(undefined);
+        }
+    }
+
+    public getTreeItem(node: DeprecationNode): TreeItem {
+        return node.item;
+    }
+
+    public async getChildren(node?: DeprecationNode): Promise<DeprecationNode[]> {
+        if (node) {
+            return node.children;
+        }
+        await this.client.onReady();
+        const tree = await this.client.sendRequest<DeprecationTree>(
+            'drupalCheck/getDeprecations',
+            { targetVersion: this.targetVersion !== null ? this.targetVersion : undefined }
+        );
+        this.versions = tree.versions;
+        const nodes = tree.extensions.map(extension => createExtensionNode(extension));
+        if (this.targetVersion !== null) {
+            const filter = new TreeItem(`Blocking Drupal ${this.targetVersion}`);
+            filter.tooltip = 'Change the target version';
+            filter.command = { command: 'drupalCheck.filterDeprecations', title: 'Filter by Target Version' };
+            nodes.unshift({ item: filter, children: [] });
+        }
+        if (tree.extensions.length === 0) {
+            const empty = new TreeItem(this.targetVersion !== null ? 'No findings block this version.' : 'No findings. Scan the workspace to list deprecations.');
+            empty.command = { command: 'drupalCheck.scanWorkspace', title: 'Scan Workspace' };
+            nodes.push({ item: empty, children: [] });
+        }
+        return nodes;
+    }
+}
+
+function createExtensionNode(extension: ExtensionDeprecations): DeprecationNode {
+    const item = new TreeItem(extension.name, TreeItemCollapsibleState.Collapsed);
+    item.description = extension.type !== null ? `${extension.type} · ${extension.count}` : String(extension.count);
+    item.contextValue = 'rescannable';
+    if (extension.directory !== null) {
+        item.resourceUri = Uri.file(extension.directory);
+        item.iconPath = ThemeIcon.Folder;
+        item.tooltip = workspace.asRelativePath(extension.directory);
+    }
+    const children = extension.apis.map(api => createApiNode(api));
+    if (extension.directory !== null) {
+        return { item, children, folder: Uri.file(extension.directory).toString() };
+    }
+    return { item, children, uris: getUris(children) };
+}
+
+function createApiNode(api: DeprecatedApi): DeprecationNode {
+    const item = new TreeItem(api.api, TreeItemCollapsibleState.Collapsed);
+    item.description = api.removedIn !== null ? `removed from Drupal ${api.removedIn} · ${api.count}` : `removal version unknown · ${api.count}`;
+    item.tooltip = api.findings[0].message;
+    item.contextValue = 'rescannable';
+    const children = api.findings.map(finding => {
+        const uri = Uri.parse(finding.uri);
+        const { start, end } = finding.range;
+        const findingItem = new TreeItem(`${path.basename(uri.fsPath)}:${start.line + 1}`);
+        findingItem.description = workspace.asRelativePath(path.dirname(uri.fsPath));
+        findingItem.tooltip = finding.message;
+        findingItem.resourceUri = uri;
+        findingItem.iconPath = ThemeIcon.File;
+        findingItem.contextValue = 'rescannable';
+        findingItem.command = {
+            command: 'vscode.open',
+            title: 'Open',
+            arguments: [uri, { selection: new Range(start.line, start.character, end.line, end.character) }],
+        };
+        return { item: findingItem, children: [], uris: [finding.uri] };
+    });
+    return { item, children, uris: getUris(children) };
+}
+
+function getUris(nodes: DeprecationNode[]): string[] {
+    const uris: Set<string> = new Set();
+    nodes.forEach(node => (node.uris || []).forEach(uri => uris.add(uri)));
+    return Array.from(uris);
+}
@@ -1,79 +1,489 @@
-/* --------------------------------------------------------------------------------------------
- * Copyright (c) Microsoft Corporation. All rights reserved.
- * Licensed under the MIT License. See License.txt in the project root for license information.
- * ------------------------------------------------------------------------------------------ */
-
-import * as path from 'path';
-import {
-    workspace,
-    ExtensionContext,
-} from 'vscode';
-
-import {
-    LanguageClient,
-    LanguageClientOptions,
-    ServerOptions,
-    TransportKind,
-} from 'vscode-languageclient';
-
-let client: LanguageClient;
-
-export function activate(context: ExtensionContext): void {
-    // The server is implemented in node
-    let serverModule: string;
-    try {
-        serverModule = context.asAbsolutePath(
-            path.join('server', 'out', 'server.js')
-        );
-    } catch (error) {
-        console.error(error);
-    }
-
-    // The debug options for the server
-    // --inspect=6009: runs the server in Node's Inspector mode so VS Code can attach to the server for debugging
-    const debugOptions = { execArgv: ['--nolazy', '--inspect=6009'] };
-
-    // If the extension is launched in debug mode then the debug server options are used
-    // Otherwise the run options are used
-    const serverOptions: ServerOptions = {
-        run: { module: serverModule, transport: TransportKind.ipc },
-        debug: {
-            module: serverModule,
-            transport: TransportKind.ipc,
-            options: debugOptions
-        }
-    };
-
-    // Options to control the language client
-    const clientOptions: LanguageClientOptions = {
-        // Register the server for plain text documents
-        documentSelector: [{ scheme: 'file', language: 'php' }],
-        synchronize: {
-            // Notify the server about file changes to '.clientrc files contained in the workspace
-            fileEvents: workspace.createFileSystemWatcher('**/.clientrc')
-        }
-    };
-
-    // Create the language client and start the client.
-    client = new LanguageClient(
-        'drupalCheck',
-        'Drupal Check',
-        serverOptions,
-        clientOptions
-    );
-    client.registerProposedFeatures();
-
-    // Start the client. This will also launch the server
-    try {
-        client.start();
-    } catch(error) {
-        client.stop();
-    }
-}
-
-export function deactivate(): Thenable<void> | undefined {
-    if (!client) {
-        return undefined;
-    }
-    return client.stop();
-}
+/* --------------------------------------------------------------------------------------------
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License. See License.txt in the project root for license information.
+ * ------------------------------------------------------------------------------------------ */
+
+import * as path from 'path';
+import {
+    commands,
+    env,
+    window,
+    workspace,
+    Diagnostic,
+    DiagnosticTag,
+    EndOfLine,
+    ExtensionContext,
+    OutputChannel,
+    Position,
+    ProgressLocation,
+    StatusBarAlignment,
+    StatusBarItem,
+    Uri,
+    WorkspaceEdit,
+    version,
+} from 'vscode';
+
+import {
+    LanguageClient,
+    LanguageClientOptions,
+    ServerOptions,
+    TransportKind,
+} from 'vscode-languageclient';
+
+import { DeprecationNode, DeprecationsProvider } from './deprecationsView';
+
+let client: LanguageClient;
+let outputChannel: OutputChannel;
+let statusBarItem: StatusBarItem;
+
+// The documents being checked, and the number of problems last reported for each document.
+const validating: Set<string> = new Set();
+const problemCounts: Map<string, number> = new Map();
+
+// Drupal PHP files that do not end in .php. They are contributed to the PHP
+// language, and matched by pattern too in case files.associations maps them elsewhere.
+const drupalPhpExtensions = ['module', 'install', 'inc', 'theme', 'profile', 'engine'];
+
+// DiagnosticTag.Deprecated, available from VS Code 1.46. Older versions ignore it.
+const deprecatedTag = <DiagnosticTag>2;
+
+// Diagnostic codes linking to a page, available from VS Code 1.48.
+const supportsCodeLinks = isVersionAtLeast(version, 1, 48);
+
+interface DiagnosticCodeLink {
+    value: string | number;
+    target: Uri;
+}
+
+interface SuppressionTarget {
+    line: number;
+    indent: string;
+}
+
+interface ValidateParams {
+    textDocument: { uri: string };
+}
+
+interface ScanWorkspaceResult {
+    files: number;
+    problems: number;
+    obsolete: number;
+}
+
+interface ExportSummary {
+    findings: number;
+    files: number;
+}
+
+interface ReportSummary {
+    findings: number;
+    files: number;
+    extensions: number;
+}
+
+export function activate(context: ExtensionContext): void {
+    // The server is implemented in node
+    let serverModule: string;
+    try {
+        serverModule = context.asAbsolutePath(
+            path.join('server', 'out', 'server.js')
+        );
+    } catch (error) {
+        console.error(error);
+    }
+
+    // The debug options for the server
+    // --inspect=6009: runs the server in Node's Inspector mode so VS Code can attach to the server for debugging
+    const debugOptions = { execArgv: ['--nolazy', '--inspect=6009'] };
+
+    // If the extension is launched in debug mode then the debug server options are used
+    // Otherwise the run options are used
+    const serverOptions: ServerOptions = {
+        run: { module: serverModule, transport: TransportKind.ipc },
+        debug: {
+            module: serverModule,
+            transport: TransportKind.ipc,
+            options: debugOptions
+        }
+    };
+
+    // The server logs every drupal-check run to this channel.
+    outputChannel = window.createOutputChannel('Drupal Check');
+    statusBarItem = window.createStatusBarItem(StatusBarAlignment.Left);
+    statusBarItem.command = 'drupalCheck.showOutput';
+    statusBarItem.tooltip = 'Show the drupal-check output';
+    context.subscriptions.push(outputChannel, statusBarItem);
+
+    // Options to control the language client
+    const clientOptions: LanguageClientOptions = {
+        // Register the server for plain text documents
+        documentSelector: [
+            { scheme: 'file', language: 'php' },
+            { scheme: 'file', pattern: `**/*.{${drupalPhpExtensions.join(',')}}` },
+            // Checked against the target core version.
+            { scheme: 'file', pattern: '**/*.info.yml' },
+            { scheme: 'file', pattern: '**/composer.json' },
+        ],
+        initializationOptions: {
+            storagePath: context.storagePath || context.globalStoragePath,
+        },
+        synchronize: {
+            // Notify the server about file changes to '.clientrc files contained in the workspace
+            fileEvents: workspace.createFileSystemWatcher('**/.clientrc')
+        },
+        outputChannel,
+        middleware: {
+            // This client version drops diagnostic tags sent by the server,
+            // so deprecations are tagged again here to show a strikethrough.
+            handleDiagnostics: (uri, diagnostics, next) => {
+                diagnostics.forEach(diagnostic => {
+                    if (isDeprecation(diagnostic)) {
+                        diagnostic.tags = [deprecatedTag];
+                    }
+                    // The code description of the server is dropped as well;
+                    // link the code to the change record of the message instead.
+                    const changeRecord = getChangeRecord(diagnostic);
+                    if (supportsCodeLinks && changeRecord !== null) {
+                        const link: DiagnosticCodeLink = { value: diagnostic.code, target: Uri.parse(changeRecord) };
+                        (<{ code: string | number | DiagnosticCodeLink }>diagnostic).code = link;
+                    }
+                });
+                problemCounts.set(uri.toString(), diagnostics.length);
+                updateStatusBar();
+                next(uri, diagnostics);
+            }
+        }
+    };
+
+    // Create the language client and start the client.
+    client = new LanguageClient(
+        'drupalCheck',
+        'Drupal Check',
+        serverOptions,
+        clientOptions
+    );
+    client.registerProposedFeatures();
+
+    const deprecations = new DeprecationsProvider(client);
+
+    context.subscriptions.push(
+        window.registerTreeDataProvider('drupalCheck.deprecations', deprecations),
+        commands.registerCommand('drupalCheck.filterDeprecations', () => deprecations.chooseTargetVersion()),
+        commands.registerCommand('drupalCheck.rescanDeprecations', (node: DeprecationNode) => rescan(node)),
+        commands.registerCommand('drupalCheck.scanWorkspace', (uri?: Uri) => scan(uri)),
+        commands.registerCommand('drupalCheck.generateBaseline', () => generateBaseline()),
+        commands.registerCommand('drupalCheck.generateReport', () => generateReport()),
+        commands.registerCommand('drupalCheck.exportFindings', () => exportFindings()),
+        commands.registerCommand('drupalCheck.clearCache', () => clearCache()),
+        commands.registerCommand('drupalCheck.showOutput', () => outputChannel.show()),
+        commands.registerCommand('drupalCheck.suppress', (uri: string, targets: SuppressionTarget[]) => suppress(uri, targets)),
+        commands.registerCommand('drupalCheck.copyToClipboard', async (text: string) => {
+            await env.clipboard.writeText(text);
+            window.setStatusBarMessage('Drupal Check: Copied to clipboard', 3000);
+        }),
+        commands.registerCommand('drupalCheck.scanFolder', async () => {
+            const folders = await window.showOpenDialog({
+                canSelectFiles: false,
+                canSelectFolders: true,
+                canSelectMany: false,
+                defaultUri: workspace.workspaceFolders ? workspace.workspaceFolders[0].uri : undefined,
+                openLabel: 'Scan',
+            });
+            if (folders && folders.length > 0) {
+                await scan(folders[0]);
+            }
+        }),
+        window.onDidChangeActiveTextEditor(() => updateStatusBar()),
+        workspace.onDidCloseTextDocument(document => problemCounts.delete(document.uri.toString()))
+    );
+
+    // Start the client. This will also launch the server
+    try {
+        client.start();
+    } catch(error) {
+        client.stop();
+    }
+
+    client.onReady().then(() => {
+        client.onNotification('drupalCheck/openSettings', (params: { setting: string }) => {
+            commands.executeCommand('workbench.action.openSettings', params.setting);
+        });
+        client.onNotification('drupalCheck/showOutput', () => outputChannel.show());
+        client.onNotification('drupalCheck/didChangeScanResults', () => deprecations.refresh());
+        client.onNotification('textDocument/didStartValidate', (params: ValidateParams) => {
+            validating.add(params.textDocument.uri);
+            updateStatusBar();
+        });
+        client.onNotification('textDocument/didEndValidate', (params: ValidateParams) => {
+            validating.delete(params.textDocument.uri);
+            updateStatusBar();
+        });
+    });
+    updateStatusBar();
+}
+
+/**
+ * Show the number of running checks, or else the number of problems of the
+ * active document.
+ */
+function updateStatusBar(): void {
+    const editor = window.activeTextEditor;
+    if (validating.size > 0) {
+        statusBarItem.text = `$(sync~spin) drupal-check: running (${validating.size})`;
+    } else if (editor && problemCounts.has(editor.document.uri.toString())) {
+        const count = problemCounts.get(editor.document.uri.toString());
+        statusBarItem.text = `drupal-check: ${count} ${count === 1 ? 'problem' : 'problems'}`;
+    } else if (editor && (editor.document.languageId === 'php' || isDrupalPhpFile(editor.document.uri))) {
+        statusBarItem.text = 'drupal-check';
+    } else {
+        statusBarItem.hide();
+        return;
+    }
+    statusBarItem.show();
+}
+
+/**
+ * Whether a file is a Drupal PHP file with an extension other than .php.
+ */
+function isDrupalPhpFile(uri: Uri): boolean {
+    return drupalPhpExtensions.indexOf(path.extname(uri.fsPath).slice(1)) !== -1;
+}
+
+/**
+ * Whether the server classified a diagnostic as the use of a deprecated API.
+ * drupal-check findings have codes such as "analysis/deprecation", ending
+ * with their category.
+ */
+function isDeprecation(diagnostic: Diagnostic): boolean {
+    return diagnostic.source === 'drupalchecker' && typeof diagnostic.code === 'string' && diagnostic.code.split('/')[1] === 'deprecation';
+}
+
+/**
+ * Get the change record a drupal-check message links to.
+ */
+function getChangeRecord(diagnostic: Diagnostic): string | null {
+    const match = diagnostic.source === 'drupalchecker' ? /\bhttps?:\/\/[^\s<>"')]+/i.exec(diagnostic.message) : null;
+    return match !== null ? match[0].replace(/[.,;:]+$/, '') : null;
+}
+
+/**
+ * Whether a VS Code version is at least the given major and minor version.
+ */
+function isVersionAtLeast(current: string, major: number, minor: number): boolean {
+    const [currentMajor, currentMinor] = current.split('.').map(part => parseInt(part, 10));
+    return currentMajor > major || (currentMajor === major && currentMinor >= minor);
+}
+
+/**
+ * Insert a `// @phpstan-ignore-next-line` comment above each target line,
+ * after asking for an optional reason.
+ */
+async function suppress(uri: string, targets: SuppressionTarget[]): Promise<void> {
+    const reason = await window.showInputBox({
+        prompt: 'Reason for suppressing (optional)',
+        placeHolder: 'Press Enter to suppress without a reason',
+    });
+    if (reason === undefined) {
+        return;
+    }
+    const document = await workspace.openTextDocument(Uri.parse(uri));
+    const eol = document.eol === EndOfLine.CRLF ? '\r\n' : '\n';
+    const comment = reason.trim() !== '' ? `// @phpstan-ignore-next-line ${reason.trim()}` : '// @phpstan-ignore-next-line';
+    const edit = new WorkspaceEdit();
+    targets.forEach(target => edit.insert(document.uri, new Position(target.line, 0), target.indent + comment + eol));
+    await workspace.applyEdit(edit);
+}
+
+/**
+ * Run drupal-check over a folder, or the whole workspace, and report the outcome.
+ */
+async function scan(uri?: Uri): Promise<void> {
+    await client.onReady();
+    const target = uri ? workspace.asRelativePath(uri) : 'workspace';
+    try {
+        const result = await window.withProgress({
+            location: ProgressLocation.Notification,
+            title: `Drupal Check: Scanning ${target}`,
+            cancellable: true,
+        }, (progress, token) => client.sendRequest<ScanWorkspaceResult | null>(
+            'drupalCheck/scanWorkspace',
+            { uri: uri ? uri.toString() : undefined },
+            token
+        ));
+        if (!result) {
+            return;
+        }
+        window.showInformationMessage(`Drupal Check found ${result.problems} problems in ${result.files} files.`);
+        if (result.obsolete > 0) {
+            const action = await window.showInformationMessage(
+                `Drupal Check: ${result.obsolete} baselined findings no longer occur.`,
+                'Generate Baseline'
+            );
+            if (action) {
+                await generateBaseline();
+            }
+        }
+    } catch (error) {
+        window.showErrorMessage(`Drupal Check: ${error.message}`);
+    }
+}
+
+/**
+ * Check the findings of a node of the deprecations view again: the folder of
+ * an extension, or the files of an API or a finding.
+ */
+async function rescan(node: DeprecationNode): Promise<void> {
+    if (node.folder) {
+        await scan(Uri.parse(node.folder));
+        return;
+    }
+    await client.onReady();
+    try {
+        await window.withProgress({
+            location: ProgressLocation.Notification,
+            title: 'Drupal Check: Checking files',
+        }, () => client.sendRequest<void>('drupalCheck/checkFiles', { uris: node.uris || [] }));
+    } catch (error) {
+        window.showErrorMessage(`Drupal Check: ${error.message}`);
+    }
+}
+
+/**
+ * Write the current findings of the workspace to the baseline file.
+ */
+async function generateBaseline(): Promise<void> {
+    await client.onReady();
+    try {
+        const result = await window.withProgress({
+            location: ProgressLocation.Notification,
+            title: 'Drupal Check: Generating baseline',
+            cancellable: true,
+        }, (progress, token) => client.sendRequest<ScanWorkspaceResult | null>('drupalCheck/generateBaseline', {}, token));
+        if (result) {
+            window.showInformationMessage('Drupal Check: Baseline generated.');
+        }
+    } catch (error) {
+        window.showErrorMessage(`Drupal Check: ${error.message}`);
+    }
+}
+
+/**
+ * Write an upgrade readiness report of the workspace deprecations, scanning the
+ * workspace first when it has not been scanned yet.
+ */
+async function generateReport(): Promise<void> {
+    const format = await window.showQuickPick([
+        { label: 'Markdown', format: 'markdown', extension: 'md' },
+        { label: 'HTML', format: 'html', extension: 'html' },
+    ], { placeHolder: 'Report format' });
+    if (!format) {
+        return;
+    }
+    const folder = workspace.workspaceFolders ? workspace.workspaceFolders[0].uri.fsPath : '';
+    const reportUri = await window.showSaveDialog({
+        defaultUri: Uri.file(path.join(folder, `drupal-upgrade-report.${format.extension}`)),
+        filters: { [format.label]: [format.extension] },
+        saveLabel: 'Generate Report',
+    });
+    if (!reportUri) {
+        return;
+    }
+    await client.onReady();
+    try {
+        const result = await window.withProgress({
+            location: ProgressLocation.Notification,
+            title: 'Drupal Check: Generating report',
+            cancellable: true,
+        }, (progress, token) => client.sendRequest<ReportSummary | null>(
+            'drupalCheck/generateReport',
+            { path: reportUri.fsPath, format: format.format },
+            token
+        ));
+        if (!result) {
+            return;
+        }
+        const action = await window.showInformationMessage(
+            `Drupal Check: Report of ${result.findings} deprecations in ${result.extensions} extensions written.`,
+            'Open Report'
+        );
+        if (!action) {
+            return;
+        }
+        if (format.format === 'html') {
+            await env.openExternal(reportUri);
+        } else {
+            await window.showTextDocument(reportUri);
+        }
+    } catch (error) {
+        window.showErrorMessage(`Drupal Check: ${error.message}`);
+    }
+}
+
+/**
+ * Export the findings of the current file or the workspace as SARIF,
+ * Checkstyle XML or a GitLab Code Quality report.
+ */
+async function exportFindings(): Promise<void> {
+    const editor = window.activeTextEditor;
+    let documentUri: Uri | undefined;
+    if (editor && editor.document.uri.scheme === 'file') {
+        const scope = await window.showQuickPick(['Current File', 'Workspace'], { placeHolder: 'Findings to export' });
+        if (!scope) {
+            return;
+        }
+        documentUri = scope === 'Current File' ? editor.document.uri : undefined;
+    }
+    const format = await window.showQuickPick([
+        { label: 'SARIF', format: 'sarif', fileName: 'drupal-check.sarif' },
+        { label: 'Checkstyle XML', format: 'checkstyle', fileName: 'drupal-check-checkstyle.xml' },
+        { label: 'GitLab Code Quality', format: 'gitlab', fileName: 'gl-code-quality-report.json' },
+    ], { placeHolder: 'Export format' });
+    if (!format) {
+        return;
+    }
+    const folder = workspace.workspaceFolders ? workspace.workspaceFolders[0].uri.fsPath : '';
+    const exportUri = await window.showSaveDialog({
+        defaultUri: Uri.file(path.join(folder, format.fileName)),
+        saveLabel: 'Export',
+    });
+    if (!exportUri) {
+        return;
+    }
+    await client.onReady();
+    try {
+        const result = await window.withProgress({
+            location: ProgressLocation.Notification,
+            title: 'Drupal Check: Exporting findings',
+            cancellable: true,
+        }, (progress, token) => client.sendRequest<ExportSummary | null>(
+            'drupalCheck/exportFindings',
+            { document: documentUri ? documentUri.toString() : undefined, path: exportUri.fsPath, format: format.format },
+            token
+        ));
+        if (result) {
+            window.showInformationMessage(`Drupal Check: Exported ${result.findings} findings in ${result.files} files.`);
+        }
+    } catch (error) {
+        window.showErrorMessage(`Drupal Check: ${error.message}`);
+    }
+}
+
+/**
+ * Forget the cached results, checking the open documents again.
+ */
+async function clearCache(): Promise<void> {
+    await client.onReady();
+    try {
+        await client.sendRequest<void>('drupalCheck/clearCache');
+        window.showInformationMessage('Drupal Check: Cache cleared.');
+    } catch (error) {
+        window.showErrorMessage(`Drupal Check: ${error.message}`);
+    }
+}
+
+export function deactivate(): Thenable<void> | undefined {
+    if (!client) {
+        return undefined;
+    }
+    return client.stop();
+}
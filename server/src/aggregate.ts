@@ -0,0 +1,137 @@
+"use strict";
+import * as path from "path";
+import { Files, Range } from "vscode-languageserver";
+import { DrupalCheckDiagnostic } from './diagnostic';
+import { parseDeprecation } from './deprecation';
+import { DrupalExtension, findExtension } from './drupal';
+import { blocksUpgrade, compareVersions } from './target';
+
+export interface Finding {
+    uri: string;
+    filePath: string;
+    range: Range;
+    // The line of the finding, starting at 1.
+    line: number;
+    message: string;
+    // The deprecated API, or the message when it names none.
+    api: string;
+    // The Drupal version the API is removed from, if known.
+    removedIn: string | null;
+}
+
+export interface ExtensionFindings {
+    extension: DrupalExtension | null;
+    findings: Finding[];
+}
+
+export interface DeprecatedApi {
+    api: string;
+    removedIn: string | null;
+    count: number;
+    findings: { uri: string; range: Range; message: string }[];
+}
+
+export interface ExtensionDeprecations {
+    name: string;
+    type: string | null;
+    // The directory holding the info file, or null for files outside any extension.
+    directory: string | null;
+    count: number;
+    apis: DeprecatedApi[];
+}
+
+/**
+ * The findings of a scan grouped by extension and deprecated API, as shown
+ * by the deprecations view of the client.
+ */
+export interface DeprecationTree {
+    // The removal versions of all findings, before filtering, oldest first.
+    versions: string[];
+    extensions: ExtensionDeprecations[];
+}
+
+/**
+ * Collect the deprecations of each extension, the extensions sorted by name
+ * and files without an extension last. Other findings, such as analysis
+ * errors, and baselined deprecations are left out.
+ *
+ * @param results The diagnostics of a scan, keyed by document uri.
+ * @return ExtensionFindings[] The findings of each extension with findings.
+ */
+export function groupFindings(results: Map<string, DrupalCheckDiagnostic[]>): ExtensionFindings[] {
+    const extensions: Map<string, DrupalExtension | null> = new Map();
+    const groups: Map<string, ExtensionFindings> = new Map();
+    Array.from(results.keys()).sort().forEach(uri => {
+        const filePath = Files.uriToFilePath(uri);
+        const extension = findExtension(filePath, extensions);
+        const key = extension !== null ? extension.infoFile : '';
+        const group = groups.get(key) || { extension, findings: [] };
+        results.get(uri)
+            .filter(diagnostic => diagnostic.source === 'drupalchecker' && !!diagnostic.data && diagnostic.data.category === 'deprecation' && !diagnostic.data.baselined)
+            .forEach(diagnostic => {
+                const deprecation = diagnostic.data && diagnostic.data.deprecation ? diagnostic.data.deprecation : parseDeprecation(diagnostic.message);
+                group.findings.push({
+                    uri,
+                    filePath,
+                    range: diagnostic.range,
+                    line: diagnostic.range.start.line + 1,
+                    message: diagnostic.message,
+                    api: deprecation !== null && deprecation.symbol !== null ? deprecation.symbol : diagnostic.message.split('\n')[0],
+                    removedIn: deprecation !== null ? deprecation.removedIn : null,
+                });
+            });
+        if (group.findings.length > 0) {
+            groups.set(key, group);
+        }
+    });
+    return Array.from(groups.values()).sort((a, b) => {
+        if (a.extension === null || b.extension === null) {
+            return a.extension === null ? 1 : -1;
+        }
+        return a.extension.name.localeCompare(b.extension.name);
+    });
+}
+
+/**
+ * Build the deprecations tree of a scan.
+ *
+ * @param results The diagnostics of a scan, keyed by document uri.
+ * @param targetVersion Only keep findings blocking an upgrade to this Drupal version, or all when null.
+ * @param isUnknownBlocking Whether findings of a document that do not tell their removal version block the upgrade.
+ * @return DeprecationTree The findings by extension and API.
+ */
+export function getDeprecationTree(results: Map<string, DrupalCheckDiagnostic[]>, targetVersion: string | null, isUnknownBlocking: (uri: string) => boolean): DeprecationTree {
+    const groups = groupFindings(results);
+    const versions: Set<string> = new Set();
+    groups.forEach(group => group.findings.forEach(finding => {
+        if (finding.removedIn !== null) {
+            versions.add(finding.removedIn);
+        }
+    }));
+    const extensions = groups.map((group): ExtensionDeprecations => {
+        const findings = group.findings.filter(finding => {
+            if (targetVersion === null) {
+                return true;
+            }
+            return finding.removedIn !== null ? blocksUpgrade(finding.removedIn, targetVersion) : isUnknownBlocking(finding.uri);
+        });
+        const apis: Map<string, DeprecatedApi> = new Map();
+        findings.forEach(finding => {
+            const api = apis.get(finding.api) || { api: finding.api, removedIn: finding.removedIn, count: 0, findings: [] };
+            api.count++;
+            api.findings.push({ uri: finding.uri, range: finding.range, message: finding.message });
+            apis.set(finding.api, api);
+        });
+        return {
+            name: group.extension !== null ? group.extension.name : 'Other files',
+            type: group.extension !== null ? group.extension.type : null,
+            directory: group.extension !== null ? path.dirname(group.extension.infoFile) : null,
+            count: findings.length,
+            apis: Array.from(apis.values()).sort((a, b) => b.count - a.count || a.api.localeCompare(b.api)),
+        };
+    });
+    return {
+        versions: Array.from(versions).sort(compareVersions),
+        extensions: extensions.filter(extension => extension.count > 0),
+    };
+}
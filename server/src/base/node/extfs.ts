@@ -44,7 +44,7 @@ export async function findAsync(parent: string, directory: string, name: string
     const chunks = paths.resolve(parent, directory).split(paths.sep);
 
     while (chunks.length) {
-        const currentDir = chunks.join(paths.sep);
+        const currentDir = chunks.join(paths.sep) || paths.sep;
         for (const fileName of names) {
             const filePath = paths.join(currentDir, fileName);
             if (fs.existsSync(filePath)) {
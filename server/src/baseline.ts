@@ -0,0 +1,246 @@
+"use strict";
+import * as path from "path";
+import * as fs from 'fs';
+import { DiagnosticSeverity } from "vscode-languageserver";
+import { DrupalCheckDiagnostic } from './diagnostic';
+import { isPathInside } from './paths';
+
+interface BaselineEntry {
+    // Matches the message of the finding.
+    message: RegExp;
+    // How often the finding may occur in the file.
+    count: number;
+}
+
+export interface BaselineResult {
+    diagnostics: DrupalCheckDiagnostic[];
+    // The number of baselined findings of the file that no longer occur.
+    obsolete: number;
+}
+
+// Loaded baselines, keyed by path, with the modification time they were read at.
+const cache: Map<string, { mtime: number; baseline: Baseline }> = new Map();
+
+/**
+ * Known findings, read from a PHPStan compatible .neon baseline or a JSON
+ * baseline. Findings of a baseline are hidden, or shown as hints.
+ */
+export class Baseline {
+
+    private entries: Map<string, BaselineEntry[]> = new Map();
+    private obsolete: Map<string, number> = new Map();
+
+    private constructor(entries: Map<string, BaselineEntry[]>) {
+        this.entries = entries;
+    }
+
+    /**
+     * Load a baseline file. Returns null when the file does not exist.
+     *
+     * @param baselinePath The absolute path of the baseline file.
+     */
+    static load(baselinePath: string): Baseline | null {
+        let mtime: number;
+        try {
+            mtime = fs.statSync(baselinePath).mtimeMs;
+        } catch (error) {
+            cache.delete(baselinePath);
+            return null;
+        }
+        const cached = cache.get(baselinePath);
+        if (cached && cached.mtime === mtime) {
+            return cached.baseline;
+        }
+        const text = fs.readFileSync(baselinePath, 'utf8');
+        const baseDir = path.dirname(baselinePath);
+        const entries = isJson(baselinePath) ? parseJson(text, baseDir) : parseNeon(text, baseDir);
+        const baseline = new Baseline(entries);
+        cache.set(baselinePath, { mtime, baseline });
+        return baseline;
+    }
+
+    /**
+     * Write the findings to a baseline file, in the format its extension names.
+     *
+     * @param baselinePath The absolute path of the baseline file.
+     * @param messages The messages found, keyed by absolute file path.
+     */
+    static write(baselinePath: string, messages: Map<string, string[]>): void {
+        const baseDir = path.dirname(baselinePath);
+        const files: { [file: string]: { message: string; count: number }[] } = {};
+        Array.from(messages.keys()).sort().forEach(filePath => {
+            const counts: Map<string, number> = new Map();
+            messages.get(filePath).forEach(message => counts.set(message, (counts.get(message) || 0) + 1));
+            if (counts.size > 0) {
+                const relativePath = path.relative(baseDir, filePath).split(path.sep).join('/');
+                files[relativePath] = Array.from(counts.keys()).sort().map(message => ({ message, count: counts.get(message) }));
+            }
+        });
+        const text = isJson(baselinePath) ? JSON.stringify({ files }, null, 4) + '\n' : formatNeon(files);
+        fs.writeFileSync(baselinePath, text, 'utf8');
+        cache.delete(baselinePath);
+    }
+
+    /**
+     * Remove baselined findings from the diagnostics of a file, or turn them
+     * into hints.
+     *
+     * @param filePath The absolute path of the file.
+     * @param diagnostics The diagnostics of the file.
+     * @param showAsHint Whether to keep baselined findings as hints.
+     */
+    public filter(filePath: string, diagnostics: DrupalCheckDiagnostic[], showAsHint: boolean): BaselineResult {
+        const entries = (this.entries.get(filePath) || []).map(entry => ({ message: entry.message, count: entry.count }));
+        const filtered: DrupalCheckDiagnostic[] = [];
+        diagnostics.forEach(diagnostic => {
+            const entry = entries.find(candidate => candidate.count > 0 && candidate.message.test(diagnostic.message));
+            if (entry === undefined) {
+                filtered.push(diagnostic);
+                return;
+            }
+            entry.count--;
+            if (showAsHint) {
+                const data = Object.assign({ ignorable: false }, diagnostic.data, { baselined: true });
+                filtered.push(Object.assign({}, diagnostic, { severity: DiagnosticSeverity.Hint, data }));
+            }
+        });
+        const obsolete = entries.reduce((sum, entry) => sum + entry.count, 0);
+        this.obsolete.set(filePath, obsolete);
+        return { diagnostics: filtered, obsolete };
+    }
+
+    /**
+     * Get the files of the baseline inside a folder.
+     */
+    public getFiles(folderPath: string): string[] {
+        return Array.from(this.entries.keys()).filter(filePath => isPathInside(filePath, folderPath));
+    }
+
+    /**
+     * Count the baselined findings inside a folder that no longer occurred
+     * when their files were last checked.
+     */
+    public countObsolete(folderPath: string): number {
+        let count = 0;
+        this.obsolete.forEach((obsolete, filePath) => {
+            if (isPathInside(filePath, folderPath)) {
+                count += obsolete;
+            }
+        });
+        return count;
+    }
+}
+
+function isJson(baselinePath: string): boolean {
+    return path.extname(baselinePath).toLowerCase() === '.json';
+}
+
+function addEntry(entries: Map<string, BaselineEntry[]>, filePath: string, entry: BaselineEntry): void {
+    entries.set(filePath, (entries.get(filePath) || []).concat(entry));
+}
+
+/**
+ * Parse a JSON baseline: `{ "files": { "<path>": [{ "message", "count" }] } }`.
+ */
+function parseJson(text: string, baseDir: string): Map<string, BaselineEntry[]> {
+    const entries: Map<string, BaselineEntry[]> = new Map();
+    let data: { files?: { [file: string]: { message: string; count?: number }[] } };
+    try {
+        data = JSON.parse(text);
+    } catch (error) {
+        return entries;
+    }
+    const files = data && data.files ? data.files : {};
+    Object.keys(files).forEach(file => {
+        (files[file] || []).forEach(item => addEntry(entries, path.resolve(baseDir, file), {
+            message: new RegExp(`^${escapeRegExp(item.message)}$`),
+            count: item.count || 1,
+        }));
+    });
+    return entries;
+}
+
+/**
+ * Parse the `ignoreErrors` list of a PHPStan baseline. Only entries with a
+ * message, a count and a single path are supported, as PHPStan writes them.
+ */
+function parseNeon(text: string, baseDir: string): Map<string, BaselineEntry[]> {
+    const entries: Map<string, BaselineEntry[]> = new Map();
+    let current: { message?: string; count?: number; path?: string } = {};
+    const flush = () => {
+        const message = current.message !== undefined ? parsePhpRegExp(current.message) : null;
+        if (message !== null && current.path !== undefined) {
+            addEntry(entries, path.resolve(baseDir, current.path), { message, count: current.count || 1 });
+        }
+        current = {};
+    };
+    text.split(/\r?\n/).forEach(line => {
+        const match = /^\s*(-)?\s*(message|count|path)\s*:\s*(.*?)\s*$/.exec(line);
+        if (/^\s*-\s*$/.test(line) || (match !== null && match[1])) {
+            flush();
+        }
+        if (match === null) {
+            return;
+        }
+        const value = parseNeonValue(match[3]);
+        if (match[2] === 'count') {
+            current.count = parseInt(value, 10);
+        } else if (match[2] === 'message') {
+            current.message = value;
+        } else {
+            current.path = value;
+        }
+    });
+    flush();
+    return entries;
+}
+
+function parseNeonValue(value: string): string {
+    if (value.startsWith('"')) {
+        try {
+            return JSON.parse(value);
+        } catch (error) {
+            return value.slice(1, -1);
+        }
+    }
+    if (value.startsWith('\'')) {
+        return value.slice(1, -1).replace(/''/g, '\'');
+    }
+    return value;
+}
+
+/**
+ * Convert a PHP regular expression such as `#^Call to \.\.\.$#i` to a RegExp.
+ */
+function parsePhpRegExp(pattern: string): RegExp | null {
+    const delimiter = pattern[0];
+    const end = pattern.lastIndexOf(delimiter);
+    if (end <= 0) {
+        return null;
+    }
+    const flags = pattern.slice(end + 1).indexOf('i') !== -1 ? 'i' : '';
+    try {
+        return new RegExp(pattern.slice(1, end), flags);
+    } catch (error) {
+        return null;
+    }
+}
+
+/**
+ * Write a PHPStan baseline, escaping messages the way preg_quote() does.
+ */
+function formatNeon(files: { [file: string]: { message: string; count: number }[] }): string {
+    const lines = ['parameters:', '\tignoreErrors:'];
+    Object.keys(files).forEach(file => files[file].forEach(entry => {
+        const message = '#^' + entry.message.replace(/[.\\+*?[^\]$(){}=!<>|:\-#/]/g, '\\$&') + '$#';
+        lines.push('\t\t-');
+        lines.push(`\t\t\tmessage: ${JSON.stringify(message)}`);
+        lines.push(`\t\t\tcount: ${entry.count}`);
+        lines.push(`\t\t\tpath: ${file}`);
+    }));
+    return lines.join('\n') + '\n';
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
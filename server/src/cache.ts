@@ -0,0 +1,93 @@
+"use strict";
+import * as path from "path";
+import * as fs from 'fs';
+import * as crypto from 'crypto';
+import { DrupalCheckMessage } from './message';
+
+/**
+ * The messages drupal-check reported for a file, keyed by check mode.
+ */
+export type ModeMessages = { [mode: string]: DrupalCheckMessage[] };
+
+interface CacheEntry {
+    filePath: string;
+    key: string;
+    messages: ModeMessages;
+}
+
+/**
+ * Create a hash of the given parts, for use in cache keys.
+ */
+export function hash(...parts: string[]): string {
+    const digest = crypto.createHash('sha1');
+    parts.forEach(part => digest.update(part).update('\0'));
+    return digest.digest('hex');
+}
+
+/**
+ * Stores drupal-check results on disk, one file per checked file. An entry
+ * is only returned for the key it was stored with, so a change of content,
+ * executable, composer.lock or settings makes it miss.
+ */
+export class ResultCache {
+
+    private storagePath: string;
+    private directory: string;
+
+    constructor(storagePath: string) {
+        this.storagePath = storagePath;
+        this.directory = path.join(storagePath, 'results');
+    }
+
+    /**
+     * Get the cached messages of a file.
+     *
+     * @param filePath The absolute path of the file.
+     * @param key The key describing everything the results depend on.
+     * @return ModeMessages The messages, or null when nothing is cached for the key.
+     */
+    public get(filePath: string, key: string): ModeMessages | null {
+        try {
+            const entry: CacheEntry = JSON.parse(fs.readFileSync(this.getEntryPath(filePath), 'utf8'));
+            return entry.filePath === filePath && entry.key === key ? entry.messages : null;
+        } catch (error) {
+            return null;
+        }
+    }
+
+    /**
+     * Store the messages of a file, replacing what was cached for it before.
+     */
+    public set(filePath: string, key: string, messages: ModeMessages): void {
+        const entry: CacheEntry = { filePath, key, messages };
+        try {
+            // The recursive option needs Node 10.12, so each directory is created on its own.
+            [this.storagePath, this.directory].forEach(directory => {
+                if (!fs.existsSync(directory)) {
+                    fs.mkdirSync(directory);
+                }
+            });
+            fs.writeFileSync(this.getEntryPath(filePath), JSON.stringify(entry), 'utf8');
+        } catch (error) {
+            // A cache that cannot be written only costs time.
+            console.error(error.message);
+        }
+    }
+
+    /**
+     * Remove every cached result.
+     */
+    public clear(): void {
+        let files: string[];
+        try {
+            files = fs.readdirSync(this.directory);
+        } catch (error) {
+            return;
+        }
+        files.forEach(file => fs.unlinkSync(path.join(this.directory, file)));
+    }
+
+    private getEntryPath(filePath: string): string {
+        return path.join(this.directory, `${hash(filePath)}.json`);
+    }
+}
@@ -3,11 +3,23 @@ import * as path from "path";
 import * as strings from "./base/common/strings";
 import * as extfs from "./base/node/extfs";
 import * as os from 'os';
+import * as fs from 'fs';
 import CharCode from "./base/common/charcode";
-import { spawnSync } from 'child_process';
 import { StringResources as SR } from "./strings";
-import { CheckerSettings } from './settings';
-import { DrupalCheckMessage } from './message';
+import { CheckerSettings, CheckMode } from './settings';
+import { classifyMessage, getSeverity } from './classifier';
+import { getTargetSeverity } from './target';
+import { DiagnosticTag, DrupalCheckDiagnostic, getDiagnosticCode } from './diagnostic';
+import { extractSymbol, findSymbol } from './symbols';
+import { parseDeprecation } from './deprecation';
+import { PhpIdentifier, tokenizeIdentifiers } from './tokenizer';
+import { Baseline } from './baseline';
+import { DrupalCheckMessage, DrupalCheckReport } from './message';
+import { ProcessRunner, RunResult } from './runner';
+import { filePathToUri, isPathInside } from './paths';
+import { hash, ModeMessages, ResultCache } from './cache';
+import { CheckError, classifyFailure } from './errors';
+import { expandCommandTemplate, PathMapper } from './container';
 
 import {
     Diagnostic,
@@ -19,121 +31,487 @@ import {
 
 const homeDirectory = os.homedir();
 
+// A document to run drupal-check on, as its results are not cached.
+interface UncheckedFile {
+    document: TextDocument;
+    filePath: string;
+    cacheKey: string | null;
+}
+let shadowCount = 0;
+
+// The output of `drupal-check --version`, keyed by executable path, with the
+// modification time and size of the executable it was read for.
+const executableVersions: Map<string, { stamp: string; version: Promise<string> }> = new Map();
+
+// Each mode runs separately, and its findings carry the mode as diagnostic code.
+const modeArguments: { [mode in CheckMode]: string } = {
+    deprecations: '--deprecations',
+    analysis: '--analysis',
+    style: '--style',
+};
+
 export class DrupalCheck {
 
     private executablePath: string;
+    private runner: ProcessRunner;
+    private cache: ResultCache | null;
 
-    private constructor(executablePath: string) {
+    private constructor(executablePath: string, runner: ProcessRunner, cache: ResultCache | null) {
 
         this.executablePath = executablePath;
+        this.runner = runner;
+        this.cache = cache;
     }
 
     /**
 	 * Create an instance of the PhpcsLinter.
+	 *
+	 * @param executablePath The drupal-check executable, or the command template when it runs in a container.
 	 */
-    static create(executablePath: string): DrupalCheck {
+    static create(executablePath: string, runner: ProcessRunner, cache: ResultCache | null = null): DrupalCheck {
         try {
             const expandedPath = executablePath.startsWith("~/") ? executablePath.replace("~", homeDirectory) : executablePath;
-            return new DrupalCheck(expandedPath.toString());
+            return new DrupalCheck(expandedPath.toString(), runner, cache);
         } catch (error) {
             const message = error.message ? error.message : SR.CreateCheckerErrorDefaultMessage;
             throw new Error(strings.format(SR.CreateCheckerError, message));
         }
     }
 
-    public async check(document: TextDocument, settings: CheckerSettings): Promise<Diagnostic[]> {
+    /**
+     * Get the drupal-check executable, or the command template, of the checker.
+     */
+    public getExecutablePath(): string {
+        return this.executablePath;
+    }
+
+    /**
+     * Check a document. Resolves to null when the run was cancelled, for
+     * instance because a newer check of the same document superseded it.
+     */
+    public async check(document: TextDocument, settings: CheckerSettings): Promise<Diagnostic[] | null> {
+        const results = await this.checkMany([document], settings, document.uri);
+        return results !== null && results.has(document.uri) ? results.get(document.uri) : null;
+    }
+
+    /**
+     * Check several documents with a single drupal-check run per mode.
+     * Resolves to the diagnostics keyed by document uri, or null when the run
+     * was cancelled. Documents edited while the check ran are left out, as
+     * the findings no longer match their text.
+     *
+     * @param key Identifies the run; a newer run with the same key cancels it.
+     */
+    public async checkMany(documents: TextDocument[], settings: CheckerSettings, key: string): Promise<Map<string, Diagnostic[]> | null> {
+        // The open documents change in place as they are edited, so check a copy of their current text.
+        const snapshots = documents.map(document => TextDocument.create(document.uri, document.languageId, document.version, document.getText()));
+        const modes = this.getModes(settings);
+        const cache = settings.cache ? this.cache : null;
+        const results: Map<string, Diagnostic[]> = new Map();
+        const unchecked: UncheckedFile[] = [];
 
-        const { workspaceRoot } = settings;
+        for (const document of snapshots) {
+            // Process linting paths.
+            const filePath = this.normalizeFilePath(Files.uriToFilePath(document.uri));
 
-        // Process linting paths.
-        let filePath = Files.uriToFilePath(document.uri);
+            const fileText = document.getText();
 
-        // Make sure we capitalize the drive letter in paths on Windows.
-        if (filePath !== undefined && /^win/.test(process.platform)) {
-            const pathRoot: string = path.parse(filePath).root;
-            const noDrivePath = filePath.slice(Math.max(pathRoot.length - 1, 0));
-            filePath = path.join(pathRoot.toUpperCase(), noDrivePath);
+            // Return empty on empty text.
+            if (fileText === '') {
+                results.set(document.uri, []);
+                continue;
+            }
+
+            const cacheKey = cache !== null ? await this.getCacheKey(fileText, modes, settings) : null;
+            const messages = cache !== null ? cache.get(filePath, cacheKey) : null;
+            if (messages !== null) {
+                results.set(document.uri, this.createFileDiagnostics(document, filePath, messages, modes, settings));
+            } else {
+                unchecked.push({ document, filePath, cacheKey });
+            }
         }
 
-        const fileText = document.getText();
+        if (unchecked.length > 0) {
+            const checked = await this.run(key, unchecked, modes, settings);
+            if (checked === null) {
+                return null;
+            }
+            unchecked.forEach(({ document, filePath, cacheKey }, i) => {
+                if (cache !== null) {
+                    cache.set(filePath, cacheKey, checked[i]);
+                }
+                results.set(document.uri, this.createFileDiagnostics(document, filePath, checked[i], modes, settings));
+            });
+        }
+        documents.forEach((document, i) => {
+            if (document.version !== snapshots[i].version) {
+                results.delete(document.uri);
+            }
+        });
+        return results;
+    }
 
-        // Return empty on empty text.
-        if (fileText === '') {
-            return [];
+    /**
+     * Turn the messages of a file into diagnostics, leaving out those of the baseline.
+     */
+    private createFileDiagnostics(document: TextDocument, filePath: string, messages: ModeMessages, modes: CheckMode[], settings: CheckerSettings): Diagnostic[] {
+        const diagnostics: Diagnostic[] = [];
+        modes.forEach(mode => diagnostics.push(...this.createDiagnostics(document, messages[mode] || [], mode, settings)));
+        const baseline = settings.baseline ? Baseline.load(settings.baseline) : null;
+        if (baseline === null) {
+            return diagnostics;
         }
+        // Obsolete entries are counted by folder scans; logging them per check would repeat on every keystroke.
+        return baseline.filter(filePath, diagnostics, settings.showBaselined).diagnostics;
+    }
+
+    /**
+     * Run every check mode on the files and collect the messages of each
+     * file. Resolves to null when a run was cancelled.
+     */
+    private async run(key: string, files: UncheckedFile[], modes: CheckMode[], settings: CheckerSettings): Promise<ModeMessages[] | null> {
+        // Check unsaved changes through a shadow copy next to the original, so
+        // autoloading and namespaces resolve exactly as for the real file.
+        const shadowPaths = files.map(({ document, filePath }) => {
+            return this.isDirty(filePath, document.getText()) ? this.createShadowFile(filePath, document.getText()) : null;
+        });
+        const checkPaths = files.map(({ filePath }, i) => shadowPaths[i] !== null ? shadowPaths[i] : filePath);
+
+        try {
+            const outputs = await Promise.all(modes.map(mode => this.execute(`${key}#${mode}`, mode, checkPaths, settings)));
+            if (outputs.indexOf(null) !== -1) {
+                return null;
+            }
+            const messages: ModeMessages[] = files.map(() => ({}));
+            outputs.forEach((report, i) => {
+                // A single file owns every error of the report; in a batch, errors go to the file they name.
+                const errors = report.errors.map(error => ({ error, index: files.length === 1 ? 0 : findPath(error, checkPaths) }));
+                errors.filter(({ index }) => index === -1).forEach(({ error }) => console.error(error));
+                files.forEach(({ filePath }, index) => {
+                    const shadowPath = shadowPaths[index];
+                    const fileErrors = errors.filter(error => error.index === index).map(({ error }) => createFileErrorMessage(error));
+                    messages[index][modes[i]] = this.getFileMessages(checkPaths[index], report).concat(fileErrors).map(message => {
+                        // Report the shadow file under the name of the original.
+                        return shadowPath !== null ? Object.assign({}, message, { message: message.message.split(shadowPath).join(filePath) }) : message;
+                    });
+                });
+            });
+            return messages;
+        } finally {
+            shadowPaths.filter(shadowPath => shadowPath !== null).forEach(shadowPath => fs.unlink(shadowPath, () => undefined));
+        }
+    }
+
+    /**
+     * Check every PHP file below a folder. Resolves to the diagnostics keyed
+     * by document uri, or null when the run was cancelled.
+     */
+    public async checkFolder(folderUri: string, settings: CheckerSettings): Promise<Map<string, Diagnostic[]> | null> {
+        const normalizedPath = this.normalizeFilePath(Files.uriToFilePath(folderUri));
+        const modes = this.getModes(settings);
+        const outputs = await Promise.all(modes.map(mode => this.execute(`${folderUri}#${mode}`, mode, [normalizedPath], settings, 'scanTimeout')));
+        if (outputs.indexOf(null) !== -1) {
+            return null;
+        }
+        const reported: Map<string, ModeMessages> = new Map();
+        const addMessages = (filePath: string, mode: CheckMode, fileMessages: DrupalCheckMessage[]) => {
+            const messages = reported.get(filePath) || {};
+            messages[mode] = (messages[mode] || []).concat(fileMessages);
+            reported.set(filePath, messages);
+        };
+        outputs.forEach((report, i) => {
+            Object.keys(report.files).forEach(filePath => addMessages(filePath, modes[i], report.files[filePath].messages));
+            // Errors naming a file of the folder are reported on its line 1.
+            report.errors.forEach(error => {
+                const filePath = findErrorFile(error, normalizedPath);
+                if (filePath !== null) {
+                    addMessages(filePath, modes[i], [createFileErrorMessage(error)]);
+                } else {
+                    console.error(error);
+                }
+            });
+        });
+        const diagnostics = await this.processReport(reported, modes, settings);
+        const baseline = settings.baseline ? Baseline.load(settings.baseline) : null;
+        if (baseline !== null) {
+            // Files missing from the report are clean, so all their baselined findings are obsolete.
+            baseline.getFiles(normalizedPath).forEach(filePath => {
+                if (!diagnostics.has(filePathToUri(filePath))) {
+                    baseline.filter(filePath, [], settings.showBaselined);
+                }
+            });
+            diagnostics.forEach((fileDiagnostics, uri) => {
+                diagnostics.set(uri, baseline.filter(Files.uriToFilePath(uri), fileDiagnostics, settings.showBaselined).diagnostics);
+            });
+        }
+        return diagnostics;
+    }
+
+    /**
+     * Get the check modes enabled in the settings.
+     */
+    private getModes(settings: CheckerSettings): CheckMode[] {
+        return (<CheckMode[]>Object.keys(modeArguments)).filter(mode => settings[mode]);
+    }
+
+    /**
+     * Run drupal-check on the given paths and return its report, with any
+     * container paths translated back to the host.
+     *
+     * @param key Identifies the run; a newer run with the same key cancels it.
+     * @param mode The kind of check to run.
+     * @param timeoutSetting The setting limiting the duration of the run.
+     */
+    private async execute(key: string, mode: CheckMode, paths: string[], settings: CheckerSettings, timeoutSetting: 'timeout' | 'scanTimeout' = 'timeout'): Promise<DrupalCheckReport | null> {
+        const { workspaceRoot, drupalRoot } = settings;
+        const timeout = settings[timeoutSetting];
+        const mapper = new PathMapper(settings.pathMappings);
 
         // Process linting arguments.
         const lintArgs = ['--format=json'];
         lintArgs.push('--no-progress');
-        lintArgs.push(filePath);
+        lintArgs.push(modeArguments[mode]);
+        if (drupalRoot) {
+            lintArgs.push(`--drupal-root=${mapper.toContainer(drupalRoot)}`);
+        }
+        lintArgs.push(...paths.map(checkPath => mapper.toContainer(checkPath)));
 
-        const text = fileText;
-        const forcedKillTime = 1000 * 60 * 5; // ms * s * m: 5 minutes
-        const options = {
-            cwd: workspaceRoot !== null ? workspaceRoot : undefined,
-            env: process.env,
-            encoding: "utf8",
-            timeout: forcedKillTime,
-            tty: true,
-            input: text,
-        };
+        const commandLine = this.getCommandLine(lintArgs, settings);
+        let result: RunResult;
+        try {
+            result = await this.runner.run(key, commandLine.command, commandLine.args, {
+                cwd: workspaceRoot !== null ? workspaceRoot : undefined,
+                env: process.env,
+                timeout: timeout * 1000,
+            });
+        } catch (error) {
+            throw this.createSpawnError(error);
+        }
+
+        if (result.cancelled) {
+            return null;
+        }
+        if (result.timedOut) {
+            throw new CheckError('timeout', strings.format(SR.CheckTimeoutError, timeout, `drupalCheck.${timeoutSetting}`), `drupalCheck.${timeoutSetting}`);
+        }
+        // Anything before the report, such as a PHP fatal error, means drupal-check crashed.
+        if (!result.stdout.trim().startsWith('{')) {
+            throw this.createCrashError(result);
+        }
+        return this.parseReport(result.stdout, mapper);
+    }
+
+    /**
+     * Get the command running drupal-check with the given arguments, through
+     * the command template when one is set.
+     */
+    private getCommandLine(args: string[], settings: CheckerSettings): { command: string; args: string[] } {
+        return settings.commandTemplate ? expandCommandTemplate(settings.commandTemplate, args) : { command: this.executablePath, args };
+    }
+
+    /**
+     * Explain why the executable could not be started.
+     */
+    private createSpawnError(error: NodeJS.ErrnoException): Error {
+        if (error.code === 'ENOENT') {
+            return new CheckError('notFound', strings.format(SR.ExecutableNotFoundError, this.executablePath), 'drupalCheck.executablePath');
+        }
+        if (error.code === 'EACCES') {
+            return new CheckError('notExecutable', strings.format(SR.ExecutableNotExecutableError, this.executablePath), 'drupalCheck.executablePath');
+        }
+        return error;
+    }
+
+    /**
+     * Explain why a run did not produce a report.
+     */
+    private createCrashError(result: RunResult): CheckError {
+        const output = `${result.stdout}\n${result.stderr}`;
+        switch (classifyFailure(output)) {
+            case 'outOfMemory':
+                return new CheckError('outOfMemory', SR.OutOfMemoryError);
+            case 'autoload':
+                return new CheckError('autoload', SR.AutoloadError, 'drupalCheck.drupalRoot');
+        }
+        if (result.stdout.trim() !== '') {
+            return new CheckError('invalidJson', SR.InvalidJsonStringError);
+        }
+        const exitCode = result.exitCode !== null ? result.exitCode : result.signal;
+        return new CheckError('crashed', strings.format(SR.CheckCrashedError, exitCode));
+    }
+
+    /**
+     * Make sure we capitalize the drive letter in paths on Windows.
+     */
+    private normalizeFilePath(filePath: string): string {
+        if (filePath !== undefined && /^win/.test(process.platform)) {
+            const pathRoot: string = path.parse(filePath).root;
+            const noDrivePath = filePath.slice(Math.max(pathRoot.length - 1, 0));
+            return path.join(pathRoot.toUpperCase(), noDrivePath);
+        }
+        return filePath;
+    }
 
+    /**
+     * Whether the document text differs from the file on disk.
+     */
+    private isDirty(filePath: string, text: string): boolean {
         try {
-            const output = spawnSync(this.executablePath, lintArgs, options);
-            console.info('Success!');
-            if (!output.stdout) {
-                throw new Error("Missing output");
-            }
-            return this.processResults(filePath, document, output.stdout.toString());
+            return fs.readFileSync(filePath, 'utf8') !== text;
         } catch (error) {
-            if (error && error.stdout) {
-                console.error('Issues found.');
-                return this.processResults(filePath, document, error.stdout);
-            } else if (error.stderr) {
-                console.error('Error could not continue.');
-                console.error(error.stderr);
-            }
+            return false;
         }
     }
 
-    private processResults(filePath: string, document: TextDocument, results: string): Diagnostic[] {
-        const data = this.parseData(results);
-        let messages: Array<DrupalCheckMessage> = [];
-        if (filePath !== undefined) {
-            const fileRealPath = extfs.realpathSync(filePath);
-            if (!data.files[fileRealPath]) {
-                return [];
+    /**
+     * Write the text to a hidden file in the same directory as the original.
+     */
+    private createShadowFile(filePath: string, text: string): string {
+        const { dir, base } = path.parse(filePath);
+        const shadowPath = path.join(dir, `.drupalcheck-${process.pid}-${++shadowCount}.${base}`);
+        fs.writeFileSync(shadowPath, text, 'utf8');
+        return shadowPath;
+    }
+
+    /**
+     * Get the messages of a single file from a report. Files missing from
+     * the report are clean.
+     */
+    private getFileMessages(filePath: string, report: DrupalCheckReport): DrupalCheckMessage[] {
+        const fileRealPath = extfs.realpathSync(filePath);
+        const file = report.files[fileRealPath] || report.files[filePath];
+        return file ? file.messages : [];
+    }
+
+    /**
+     * Process a report covering several files. Files are read from disk, as
+     * that is the content drupal-check analysed, and their messages are
+     * cached for that content.
+     */
+    private async processReport(reported: Map<string, ModeMessages>, modes: CheckMode[], settings: CheckerSettings): Promise<Map<string, Diagnostic[]>> {
+        const cache = settings.cache ? this.cache : null;
+        const diagnostics: Map<string, Diagnostic[]> = new Map();
+        for (const [filePath, messages] of Array.from(reported.entries())) {
+            let text: string;
+            try {
+                text = fs.readFileSync(filePath, 'utf8');
+            } catch (error) {
+                continue;
             }
-            ({ messages } = data.files[fileRealPath]);
+            if (cache !== null) {
+                cache.set(filePath, await this.getCacheKey(text, modes, settings), messages);
+            }
+            const uri = filePathToUri(filePath);
+            const document = TextDocument.create(uri, 'php', 0, text);
+            const fileDiagnostics: Diagnostic[] = [];
+            modes.forEach(mode => fileDiagnostics.push(...this.createDiagnostics(document, messages[mode] || [], mode, settings)));
+            diagnostics.set(uri, fileDiagnostics);
         }
+        return diagnostics;
+    }
+
+    /**
+     * Build the key of the cached results of a file. It covers everything the
+     * report depends on: the content, the executable and its version, the
+     * installed packages and the settings passed to drupal-check.
+     */
+    private async getCacheKey(text: string, modes: CheckMode[], settings: CheckerSettings): Promise<string> {
+        const lockPath = settings.workspaceRoot !== null ? path.join(settings.workspaceRoot, 'composer.lock') : null;
+        return hash(
+            hash(text),
+            this.executablePath,
+            await this.getVersion(settings),
+            lockPath !== null ? getFileStamp(lockPath) : '',
+            modes.join(','),
+            settings.drupalRoot || ''
+        );
+    }
+
+    /**
+     * Get the version reported by the executable. Runs `--version` once per
+     * build of the executable; failures give an empty version, leaving the
+     * error to the check itself.
+     */
+    private getVersion(settings: CheckerSettings): Promise<string> {
+        const stamp = getFileStamp(this.executablePath);
+        const known = executableVersions.get(this.executablePath);
+        if (known !== undefined && known.stamp === stamp) {
+            return known.version;
+        }
+        const commandLine = this.getCommandLine(['--version'], settings);
+        const version = this.runner.run(`${this.executablePath}#version`, commandLine.command, commandLine.args, {
+            cwd: settings.workspaceRoot !== null ? settings.workspaceRoot : undefined,
+            env: process.env,
+            timeout: settings.timeout * 1000,
+        }).then(result => {
+            if (result.cancelled || result.exitCode !== 0) {
+                executableVersions.delete(this.executablePath);
+                return '';
+            }
+            return result.stdout.trim();
+        }, () => {
+            executableVersions.delete(this.executablePath);
+            return '';
+        });
+        executableVersions.set(this.executablePath, { stamp, version });
+        return version;
+    }
+
+    private createDiagnostics(document: TextDocument, messages: Array<DrupalCheckMessage>, mode: CheckMode, settings: CheckerSettings): Diagnostic[] {
         const diagnostics: Diagnostic[] = [];
-        messages.map(message => diagnostics.push(
-            this.createDiagnostic(document, message)
-        ));
+        const identifiers = tokenizeIdentifiers(document.getText());
+        messages.forEach(message => {
+            const diagnostic = this.createDiagnostic(document, identifiers, message, mode, settings);
+            if (diagnostic !== null) {
+                diagnostics.push(diagnostic);
+            }
+        });
         return diagnostics;
     }
 
-    private parseData(text: string) {
+    /**
+     * Parse the JSON report of drupal-check, translating container paths in
+     * file names and messages back to the host.
+     */
+    private parseReport(text: string, mapper: PathMapper): DrupalCheckReport {
+        let data;
         try {
-            return JSON.parse(text);
+            data = JSON.parse(text);
         } catch (error) {
-            throw new Error(SR.InvalidJsonStringError);
+            throw new CheckError('invalidJson', SR.InvalidJsonStringError);
         }
+        const report: DrupalCheckReport = { files: {}, errors: [] };
+        const files = data && data.files && typeof data.files === 'object' ? data.files : {};
+        Object.keys(files).forEach(filePath => {
+            const messages: DrupalCheckMessage[] = files[filePath].messages || [];
+            report.files[mapper.toHost(filePath)] = {
+                messages: messages.map(message => Object.assign({}, message, { message: mapper.replaceInText(message.message) })),
+            };
+        });
+        if (data && Array.isArray(data.errors)) {
+            report.errors = data.errors.filter(error => typeof error === 'string').map(error => mapper.replaceInText(error));
+        }
+        return report;
     }
 
-    private createDiagnostic(document: TextDocument, entry: DrupalCheckMessage): Diagnostic {
+    /**
+     * Turn a message into a diagnostic. Resolves to null for deprecations
+     * hidden because they do not block the target Drupal version.
+     */
+    private createDiagnostic(document: TextDocument, identifiers: PhpIdentifier[][], entry: DrupalCheckMessage, mode: CheckMode, settings: CheckerSettings): DrupalCheckDiagnostic | null {
         if (entry == null || entry.message == '') {
             const range: Range = Range.create(0, 0, 0, 0);
-            return Diagnostic.create(range, '', DiagnosticSeverity.Information, null, 'drupalchecker');
+            return Diagnostic.create(range, '', DiagnosticSeverity.Information, mode, 'drupalchecker');
         }
 
+        // Messages past the end of the text, or without a line, go to the nearest line.
         const lines = document.getText().split("\n");
-        const line = entry.line - 1;
+        const line = Math.max(0, Math.min((entry.line || 1) - 1, lines.length - 1));
         const lineString = lines[line];
 
         // Process diagnostic start and end characters.
         let startCharacter = 0;
-        const endCharacter = lineString.length;
+        let endCharacter = lineString.length;
         let charCode = lineString.charCodeAt(startCharacter);
         if (CharCode.isWhiteSpace(charCode)) {
             for (let i = startCharacter + 1, len = lineString.length; i < len; i++) {
@@ -145,6 +523,14 @@ export class DrupalCheck {
             }
         }
 
+        // Narrow the range down to the symbol the message is about.
+        const symbol = extractSymbol(entry.message);
+        const identifier = symbol !== null && identifiers[line] ? findSymbol(identifiers[line], symbol) : null;
+        if (identifier !== null) {
+            startCharacter = identifier.start;
+            endCharacter = identifier.end;
+        }
+
         // Process diagnostic range.
         const range: Range = Range.create(line, startCharacter, line, endCharacter);
 
@@ -152,8 +538,73 @@ export class DrupalCheck {
         const message: string = entry.message;
 
         // Process diagnostic severity.
-        const severity: DiagnosticSeverity = DiagnosticSeverity.Error;
+        const category = classifyMessage(entry, mode);
+        const severity: DiagnosticSeverity = getSeverity(entry, category, settings.severity);
+
+        // Deprecations are weighed against the Drupal version the project upgrades to.
+        const deprecation = parseDeprecation(message);
+        const targetSeverity = category === 'deprecation' ? getTargetSeverity(deprecation, severity, settings) : severity;
+        if (targetSeverity === null) {
+            return null;
+        }
+
+        const diagnostic: DrupalCheckDiagnostic = Diagnostic.create(range, message, targetSeverity, getDiagnosticCode(mode, category), 'drupalchecker');
+        diagnostic.data = { ignorable: entry.ignorable === true, category };
+        if (deprecation !== null) {
+            diagnostic.data.deprecation = deprecation;
+            if (deprecation.url !== null) {
+                diagnostic.codeDescription = { href: deprecation.url };
+            }
+        }
+        if (category === 'deprecation') {
+            diagnostic.tags = [DiagnosticTag.Deprecated];
+        }
+        return diagnostic;
+    }
+}
 
-        return Diagnostic.create(range, message, severity, null, 'drupalchecker');
+/**
+ * Describe the state of a file by its modification time and size.
+ *
+ * @return string The stamp, or an empty string when the file does not exist.
+ */
+function getFileStamp(filePath: string): string {
+    try {
+        const stat = fs.statSync(filePath);
+        return `${stat.mtimeMs}:${stat.size}`;
+    } catch (error) {
+        return '';
+    }
+}
+
+/**
+ * Turn an error of a report into a message on the first line of the file.
+ */
+function createFileErrorMessage(error: string): DrupalCheckMessage {
+    return { message: error, line: 1, ignorable: false };
+}
+
+/**
+ * Find which of the given paths a report error names.
+ *
+ * @return number The index of the path, or -1 when the error names none of them.
+ */
+function findPath(error: string, filePaths: string[]): number {
+    return filePaths.findIndex(filePath => error.indexOf(filePath) !== -1);
+}
+
+/**
+ * Find the file inside a folder that a report error is about.
+ *
+ * @return string The absolute path of the file, or null when the error names none.
+ */
+function findErrorFile(error: string, folderPath: string): string | null {
+    const pattern = /(?:[A-Za-z]:)?[\\/][^\s"':,]+\.[A-Za-z]+/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(error)) !== null) {
+        if (isPathInside(match[0], folderPath) && fs.existsSync(match[0])) {
+            return match[0];
+        }
     }
+    return null;
 }
@@ -0,0 +1,73 @@
+"use strict";
+import { DiagnosticSeverity } from "vscode-languageserver";
+import { DrupalCheckMessage } from './message';
+import { CheckMode, SeverityName, SeveritySettings } from './settings';
+
+/**
+ * What a drupal-check finding is about:
+ * - deprecation: use of an API that still exists but is deprecated.
+ * - removed: use of an API that no longer exists.
+ * - analysis: any other static analysis error.
+ * - style: a coding style finding.
+ */
+export type MessageCategory = 'deprecation' | 'removed' | 'analysis' | 'style';
+
+const severities: { [name in SeverityName]: DiagnosticSeverity } = {
+    Error: DiagnosticSeverity.Error,
+    Warning: DiagnosticSeverity.Warning,
+    Information: DiagnosticSeverity.Information,
+    Hint: DiagnosticSeverity.Hint,
+};
+
+const deprecationPattern = /\bdeprecated\b/i;
+const removedPatterns = [
+    /^Call to (an )?undefined (static )?(function|method)\b/i,
+    /^(Class|Interface|Trait|Function|Constant) [^ ]+ not found\b/i,
+    /^Access to (an )?undefined (static )?property\b/i,
+    /^Access to undefined constant\b/i,
+    /\bunknown class\b/i,
+];
+
+/**
+ * Sort a finding into a category, using the check it came from, the message
+ * text and whether PHPStan allows ignoring it.
+ */
+export function classifyMessage(entry: DrupalCheckMessage, mode: CheckMode): MessageCategory {
+    // Findings that cannot be ignored, such as syntax errors, are never
+    // just a matter of style or deprecation.
+    if (entry.ignorable === false) {
+        return 'analysis';
+    }
+    if (deprecationPattern.test(entry.message)) {
+        return 'deprecation';
+    }
+    if (removedPatterns.some(pattern => pattern.test(entry.message))) {
+        return 'removed';
+    }
+    return mode === 'style' ? 'style' : 'analysis';
+}
+
+/**
+ * Get the severity of a finding. User rules are tried first, in order, then
+ * the severity configured for the category.
+ */
+export function getSeverity(entry: DrupalCheckMessage, category: MessageCategory, settings: SeveritySettings | undefined): DiagnosticSeverity {
+    if (!settings) {
+        return DiagnosticSeverity.Error;
+    }
+    for (const rule of settings.rules || []) {
+        if (matchesRule(rule.pattern, entry.message) && severities[rule.severity]) {
+            return severities[rule.severity];
+        }
+    }
+    return severities[settings[category]] || DiagnosticSeverity.Error;
+}
+
+function matchesRule(pattern: string, message: string): boolean {
+    try {
+        return new RegExp(pattern, 'i').test(message);
+    } catch (error) {
+        // Ignore invalid expressions rather than failing the whole check.
+        return false;
+    }
+}
@@ -0,0 +1,192 @@
+"use strict";
+import {
+    CodeAction,
+    CodeActionKind,
+    Command,
+    Diagnostic,
+    Range,
+    TextDocument,
+    TextEdit
+} from "vscode-languageserver";
+import { CheckerSettings } from './settings';
+import { extractSymbol } from './symbols';
+import { findStringEnd } from './tokenizer';
+import { applyReplacement, defaultReplacements, findReplacement } from './replacements';
+import { DrupalCheckDiagnostic } from './diagnostic';
+import { parseDeprecation } from './deprecation';
+
+interface CallExpression {
+    // Offsets of the whole call, including any class qualifier.
+    start: number;
+    end: number;
+    // The function name, or Class::method for static calls.
+    symbol: string;
+    // The source code of each argument.
+    args: string[];
+}
+
+// A line to insert an ignore comment above, with the indentation to use.
+export interface SuppressionTarget {
+    line: number;
+    indent: string;
+}
+
+/**
+ * Get the quick fixes for drupal-check diagnostics of a document.
+ *
+ * @param document The text document.
+ * @param diagnostics The diagnostics at the requested range.
+ * @param documentDiagnostics All diagnostics of the document.
+ * @param settings The settings of the document.
+ * @return CodeAction[] The code actions.
+ */
+export function getCodeActions(document: TextDocument, diagnostics: DrupalCheckDiagnostic[], documentDiagnostics: DrupalCheckDiagnostic[], settings: CheckerSettings): CodeAction[] {
+    const replacements = (settings.replacements || []).concat(defaultReplacements);
+    const actions: CodeAction[] = [];
+    const suppressible = diagnostics.filter(isSuppressible);
+    diagnostics.filter(diagnostic => diagnostic.source === 'drupalchecker').forEach(diagnostic => {
+        const action = createReplaceAction(document, diagnostic, replacements) || createSuggestionAction(diagnostic);
+        if (action !== null) {
+            actions.push(action);
+        }
+    });
+    suppressible.forEach(diagnostic => {
+        actions.push(createSuppressAction(document, 'Suppress this drupal-check finding', [diagnostic]));
+    });
+    const suppressibleInFile = documentDiagnostics.filter(isSuppressible);
+    if (suppressible.length > 0 && suppressibleInFile.length > 1) {
+        actions.push(createSuppressAction(document, 'Suppress all drupal-check findings in this file', suppressibleInFile));
+    }
+    return actions;
+}
+
+/**
+ * Whether PHPStan allows ignoring the finding of a diagnostic.
+ */
+function isSuppressible(diagnostic: DrupalCheckDiagnostic): boolean {
+    return diagnostic.source === 'drupalchecker' && !!diagnostic.data && diagnostic.data.ignorable;
+}
+
+/**
+ * Create an action inserting `// @phpstan-ignore-next-line` above each
+ * finding. The client asks for an optional reason before applying it.
+ */
+function createSuppressAction(document: TextDocument, title: string, diagnostics: Diagnostic[]): CodeAction {
+    const lines = document.getText().split('\n');
+    const targets: SuppressionTarget[] = [];
+    diagnostics.forEach(diagnostic => {
+        const line = diagnostic.range.start.line;
+        if (targets.some(target => target.line === line) || line >= lines.length) {
+            return;
+        }
+        targets.push({ line, indent: /^[ \t]*/.exec(lines[line])[0] });
+    });
+    const command = Command.create(title, 'drupalCheck.suppress', document.uri, targets);
+    const action = CodeAction.create(title, command, CodeActionKind.QuickFix);
+    action.diagnostics = diagnostics;
+    return action;
+}
+
+/**
+ * Create a quick fix rewriting a deprecated call to its replacement.
+ */
+function createReplaceAction(document: TextDocument, diagnostic: Diagnostic, replacements: CheckerSettings['replacements']): CodeAction | null {
+    const symbol = extractSymbol(diagnostic.message);
+    if (symbol === null) {
+        return null;
+    }
+    const text = document.getText();
+    const call = findCall(text, document.offsetAt(diagnostic.range.start), symbol);
+    if (call === null) {
+        return null;
+    }
+    const replacement = findReplacement(call.symbol, replacements);
+    const code = replacement !== null ? applyReplacement(replacement, call.args) : null;
+    if (code === null) {
+        return null;
+    }
+    const range = Range.create(document.positionAt(call.start), document.positionAt(call.end));
+    const action = CodeAction.create(`Replace with ${code}`, {
+        changes: { [document.uri]: [TextEdit.replace(range, code)] }
+    }, CodeActionKind.QuickFix);
+    action.diagnostics = [diagnostic];
+    return action;
+}
+
+/**
+ * Create a hint for a replacement suggested by the message. It copies the
+ * suggestion instead of editing, as it cannot be applied reliably.
+ */
+function createSuggestionAction(diagnostic: Diagnostic): CodeAction | null {
+    const deprecation = parseDeprecation(diagnostic.message);
+    if (deprecation === null || deprecation.replacement === null) {
+        return null;
+    }
+    const suggestion = deprecation.replacement;
+    const command = Command.create(`Copy suggested replacement: ${suggestion}`, 'drupalCheck.copyToClipboard', suggestion);
+    const action = CodeAction.create(command.title, command, CodeActionKind.QuickFix);
+    action.diagnostics = [diagnostic];
+    return action;
+}
+
+/**
+ * Parse the call of a function or static method whose name starts at the
+ * given offset. Calls of instance methods are not supported.
+ */
+function findCall(text: string, offset: number, symbol: string): CallExpression | null {
+    const name = /[A-Za-z_][A-Za-z0-9_]*/y;
+    name.lastIndex = offset;
+    const nameMatch = name.exec(text);
+    if (nameMatch === null || nameMatch[0].toLowerCase() !== symbol.toLowerCase()) {
+        return null;
+    }
+
+    let start = offset;
+    let callSymbol = nameMatch[0];
+    if (text.slice(offset - 2, offset) === '::') {
+        const qualifier = /\\?[A-Za-z_][A-Za-z0-9_\\]*$/.exec(text.slice(0, offset - 2));
+        if (qualifier === null || /^(self|static|parent)$/i.test(qualifier[0])) {
+            return null;
+        }
+        const segments = qualifier[0].split('\\');
+        callSymbol = `${segments[segments.length - 1]}::${callSymbol}`;
+        start = qualifier.index;
+    } else if (text.slice(offset - 2, offset) === '->') {
+        return null;
+    } else if (text[offset - 1] === '\\') {
+        start--;
+    }
+
+    let i = offset + nameMatch[0].length;
+    while (/\s/.test(text[i])) {
+        i++;
+    }
+    if (text[i] !== '(') {
+        return null;
+    }
+
+    // Split the arguments at top level commas, skipping nested brackets and strings.
+    const args: string[] = [];
+    let argumentStart = i + 1;
+    let depth = 0;
+    for (i = i + 1; i < text.length; i++) {
+        const ch = text[i];
+        if (ch === '\'' || ch === '"') {
+            i = findStringEnd(text, i) - 1;
+        } else if (ch === '(' || ch === '[' || ch === '{') {
+            depth++;
+        } else if ((ch === ')' || ch === ']' || ch === '}') && depth > 0) {
+            depth--;
+        } else if (ch === ',' && depth === 0) {
+            args.push(text.slice(argumentStart, i).trim());
+            argumentStart = i + 1;
+        } else if (ch === ')') {
+            const lastArgument = text.slice(argumentStart, i).trim();
+            if (lastArgument !== '') {
+                args.push(lastArgument);
+            }
+            return { start, end: i + 1, symbol: callSymbol, args };
+        }
+    }
+    return null;
+}
@@ -0,0 +1,231 @@
+"use strict";
+import * as fs from 'fs';
+
+export interface ComposerJson {
+    name?: string;
+    require?: { [packageName: string]: string };
+    'require-dev'?: { [packageName: string]: string };
+    config?: {
+        'bin-dir'?: string;
+        'vendor-dir'?: string;
+    };
+    extra?: {
+        'drupal-scaffold'?: {
+            locations?: { [location: string]: string };
+        };
+        'installer-paths'?: { [installPath: string]: string[] };
+    };
+}
+
+/**
+ * Read a composer.json file. Returns an empty object when the file is
+ * missing or invalid.
+ */
+export function readComposerJson(composerFile: string): ComposerJson {
+    try {
+        const composer = JSON.parse(fs.readFileSync(composerFile, 'utf8'));
+        return composer !== null && typeof composer === 'object' ? composer : {};
+    } catch (error) {
+        return {};
+    }
+}
+
+interface Bound {
+    version: number[];
+    inclusive: boolean;
+}
+
+// The versions between two bounds; a missing bound is unlimited.
+interface VersionRange {
+    min: Bound | null;
+    max: Bound | null;
+}
+
+/**
+ * Whether a composer version constraint, such as "^9.5 || ^10", allows any
+ * release of a version. "10" stands for every 10.x release, "10.2" for
+ * every 10.2.x release and "10.2.1" for that release only.
+ *
+ * @param constraint The constraint.
+ * @param version The version, with one to three parts.
+ * @return boolean Whether the constraint allows the version, or null when the constraint cannot be parsed.
+ */
+export function allowsVersion(constraint: string, version: string): boolean | null {
+    const parts = parseVersion(version);
+    if (parts === null) {
+        return null;
+    }
+    const target: VersionRange = parts.length === 3 ?
+        { min: { version: parts, inclusive: true }, max: { version: parts, inclusive: true } } :
+        getWildcardRange(parts);
+    const alternatives = constraint.trim().split(/\s*\|\|?\s*/);
+    let allowed = false;
+    for (const alternative of alternatives) {
+        const ranges = parseConjunction(alternative);
+        if (ranges === null) {
+            return null;
+        }
+        allowed = allowed || isSatisfiable(ranges.concat(target));
+    }
+    return allowed;
+}
+
+/**
+ * Parse constraints that must all hold, separated by spaces or commas.
+ */
+function parseConjunction(constraint: string): VersionRange[] | null {
+    // Join hyphen ranges and operators with their version first.
+    const terms = constraint
+        .replace(/\s+-\s+/g, ' - ')
+        .replace(/(>=|<=|!=|==|>|<|=|\^|~)\s+/g, '$1')
+        .split(/[\s,]+/)
+        .filter(term => term !== '');
+    const ranges: VersionRange[] = [];
+    for (let i = 0; i < terms.length; i++) {
+        let range: VersionRange | null;
+        if (terms[i + 1] === '-' && terms[i + 2] !== undefined) {
+            range = parseHyphenRange(terms[i], terms[i + 2]);
+            i += 2;
+        } else {
+            range = parseTerm(terms[i]);
+        }
+        if (range === null) {
+            return null;
+        }
+        ranges.push(range);
+    }
+    return ranges.length > 0 ? ranges : null;
+}
+
+function parseTerm(term: string): VersionRange | null {
+    // Stability flags, such as "@dev", do not change the versions allowed.
+    term = term.replace(/@\w+$/, '');
+    if (term === '*' || term === '') {
+        return { min: null, max: null };
+    }
+    const match = /^(>=|<=|!=|==|>|<|=|\^|~)?v?(.+)$/.exec(term);
+    const operator = match[1] || '';
+    if (operator === '' && /[.][*x]$/i.test(match[2])) {
+        const wildcard = parseVersion(match[2].replace(/[.][*x]$/i, ''));
+        return wildcard !== null ? getWildcardRange(wildcard) : null;
+    }
+    const version = parseVersion(match[2]);
+    if (version === null) {
+        return null;
+    }
+    const padded = pad(version);
+    switch (operator) {
+        case '^':
+            return { min: { version: padded, inclusive: true }, max: { version: getCaretLimit(version), inclusive: false } };
+        case '~':
+            return { min: { version: padded, inclusive: true }, max: { version: bump(version.slice(0, Math.max(version.length - 1, 1))), inclusive: false } };
+        case '>=':
+            return { min: { version: padded, inclusive: true }, max: null };
+        case '>':
+            return { min: { version: padded, inclusive: false }, max: null };
+        case '<=':
+            return { min: null, max: { version: padded, inclusive: true } };
+        case '<':
+            return { min: null, max: { version: padded, inclusive: false } };
+        case '!=':
+            // Excluding a single release hardly ever excludes a whole version.
+            return { min: null, max: null };
+        default:
+            return { min: { version: padded, inclusive: true }, max: { version: padded, inclusive: true } };
+    }
+}
+
+function parseHyphenRange(from: string, to: string): VersionRange | null {
+    const min = parseVersion(from.replace(/([.][*x])+$/i, ''));
+    const max = parseVersion(to.replace(/([.][*x])+$/i, ''));
+    if (min === null || max === null) {
+        return null;
+    }
+    // A partial upper version includes all its releases.
+    return {
+        min: { version: pad(min), inclusive: true },
+        max: max.length < 3 ? { version: bump(max), inclusive: false } : { version: max, inclusive: true },
+    };
+}
+
+/**
+ * Parse up to three numeric parts of a version, ignoring suffixes such as "-beta1".
+ */
+function parseVersion(version: string): number[] | null {
+    const match = /^v?(\d+)(?:\.(\d+))?(?:\.(\d+))?(?:\.\d+)?(?:[-+].*)?$/.exec(version.trim());
+    if (match === null) {
+        return null;
+    }
+    return match.slice(1).filter(part => part !== undefined).map(part => parseInt(part, 10));
+}
+
+/**
+ * The releases starting with the given parts, such as 10.x for [10].
+ */
+function getWildcardRange(parts: number[]): VersionRange {
+    return { min: { version: pad(parts), inclusive: true }, max: { version: bump(parts), inclusive: false } };
+}
+
+/**
+ * The first version a caret constraint excludes: the next major version, or
+ * for 0.x the next significant part.
+ */
+function getCaretLimit(version: number[]): number[] {
+    const significant = version.findIndex(part => part !== 0);
+    if (significant === -1) {
+        return bump(version);
+    }
+    return bump(version.slice(0, significant + 1));
+}
+
+/**
+ * Increase the last part of a version, as in [10, 2] to 10.3.0.
+ */
+function bump(parts: number[]): number[] {
+    const bumped = parts.slice();
+    bumped[bumped.length - 1]++;
+    return pad(bumped);
+}
+
+function pad(parts: number[]): number[] {
+    return [parts[0] || 0, parts[1] || 0, parts[2] || 0];
+}
+
+function isSatisfiable(ranges: VersionRange[]): boolean {
+    let min: Bound | null = null;
+    let max: Bound | null = null;
+    ranges.forEach(range => {
+        if (range.min !== null && (min === null || compareBounds(range.min, min, true) > 0)) {
+            min = range.min;
+        }
+        if (range.max !== null && (max === null || compareBounds(range.max, max, false) < 0)) {
+            max = range.max;
+        }
+    });
+    if (min === null || max === null) {
+        return true;
+    }
+    const difference = compareParts(min.version, max.version);
+    return difference < 0 || (difference === 0 && min.inclusive && max.inclusive);
+}
+
+/**
+ * Compare two bounds of the same side; exclusive bounds are tighter.
+ */
+function compareBounds(a: Bound, b: Bound, lower: boolean): number {
+    const difference = compareParts(a.version, b.version);
+    if (difference !== 0 || a.inclusive === b.inclusive) {
+        return difference;
+    }
+    const tighter = a.inclusive ? -1 : 1;
+    return lower ? tighter : -tighter;
+}
+
+function compareParts(a: number[], b: number[]): number {
+    for (let i = 0; i < 3; i++) {
+        if (a[i] !== b[i]) {
+            return a[i] - b[i];
+        }
+    }
+    return 0;
+}
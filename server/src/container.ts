@@ -0,0 +1,212 @@
+"use strict";
+import * as path from "path";
+import * as fs from 'fs';
+import { ancestors, isPathInside } from './paths';
+
+export type ContainerPreset = 'ddev' | 'lando' | 'docker-compose';
+
+export interface ContainerCommand {
+    preset: ContainerPreset;
+    // The command running drupal-check, with {args} standing for its arguments.
+    commandTemplate: string;
+    // Container paths, keyed by absolute host path.
+    pathMappings: { [hostPath: string]: string };
+}
+
+// Services of a docker compose file likely to hold the PHP toolchain, in order of preference.
+const phpServiceNames = ['php', 'drupal', 'cli', 'app', 'web'];
+const composeFiles = ['docker-compose.yml', 'docker-compose.yaml', 'compose.yml', 'compose.yaml'];
+
+/**
+ * Detect the container a project runs in from its DDEV, Lando or docker
+ * compose configuration, walking up from the project directory. When
+ * looking for any preset, a container is only picked when the project has
+ * drupal-check in vendor/bin, as that is the executable run inside it.
+ *
+ * @param directory The project directory.
+ * @param preset Only look for this preset, or for any when null.
+ * @return ContainerCommand The command and path mappings, or null when none is found.
+ */
+export function detectContainer(directory: string, preset: ContainerPreset | null): ContainerCommand | null {
+    for (const current of ancestors(directory)) {
+        if ((preset === null || preset === 'ddev') && fs.existsSync(path.join(current, '.ddev', 'config.yaml'))) {
+            if (preset !== null || hasVendorExecutable(current)) {
+                return {
+                    preset: 'ddev',
+                    commandTemplate: 'ddev exec vendor/bin/drupal-check {args}',
+                    pathMappings: { [current]: '/var/www/html' },
+                };
+            }
+        }
+        if ((preset === null || preset === 'lando') && fs.existsSync(path.join(current, '.lando.yml'))) {
+            if (preset !== null || hasVendorExecutable(current)) {
+                return {
+                    preset: 'lando',
+                    commandTemplate: 'lando php vendor/bin/drupal-check {args}',
+                    pathMappings: { [current]: '/app' },
+                };
+            }
+        }
+        const composeFile = composeFiles.map(file => path.join(current, file)).find(file => fs.existsSync(file));
+        if ((preset === null || preset === 'docker-compose') && composeFile !== undefined) {
+            // The command runs in the project directory.
+            const command = preset !== null || hasVendorExecutable(directory) ? detectComposeService(composeFile, directory) : null;
+            if (command !== null) {
+                return command;
+            }
+        }
+    }
+    return null;
+}
+
+/**
+ * Whether drupal-check is installed in the vendor/bin directory of a project.
+ */
+function hasVendorExecutable(directory: string): boolean {
+    return fs.existsSync(path.join(directory, 'vendor', 'bin', 'drupal-check'));
+}
+
+/**
+ * Find the docker compose service that mounts the project directory, and
+ * build the command running drupal-check in it.
+ */
+function detectComposeService(composeFile: string, directory: string): ContainerCommand | null {
+    const candidates = parseComposeVolumes(fs.readFileSync(composeFile, 'utf8'))
+        .map(volume => Object.assign(volume, { hostPath: path.resolve(path.dirname(composeFile), volume.hostPath) }))
+        .filter(volume => isPathInside(directory, volume.hostPath))
+        .sort((a, b) => getServicePriority(a.service) - getServicePriority(b.service));
+    if (candidates.length === 0) {
+        return null;
+    }
+    const { service, hostPath, containerPath } = candidates[0];
+    const workdir = path.posix.join(containerPath, path.relative(hostPath, directory).split(path.sep).join('/'));
+    return {
+        preset: 'docker-compose',
+        commandTemplate: `docker compose exec -T -w ${workdir} ${service} vendor/bin/drupal-check {args}`,
+        pathMappings: { [hostPath]: containerPath },
+    };
+}
+
+function getServicePriority(service: string): number {
+    const index = phpServiceNames.indexOf(service);
+    return index !== -1 ? index : phpServiceNames.length;
+}
+
+/**
+ * Read the bind mounts of each service from the short volume syntax of a
+ * docker compose file, such as `- ./:/var/www/html:cached`.
+ */
+function parseComposeVolumes(text: string): { service: string; hostPath: string; containerPath: string }[] {
+    const volumes: { service: string; hostPath: string; containerPath: string }[] = [];
+    let inServices = false;
+    let serviceIndent = -1;
+    let service: string | null = null;
+    text.split(/\r?\n/).forEach(line => {
+        if (/^\s*(#.*)?$/.test(line)) {
+            return;
+        }
+        const indent = line.search(/\S/);
+        if (indent === 0) {
+            inServices = /^services\s*:/.test(line);
+            serviceIndent = -1;
+            service = null;
+            return;
+        }
+        const key = /^\s*([\w.-]+)\s*:\s*$/.exec(line);
+        if (inServices && key !== null && (serviceIndent === -1 || indent === serviceIndent)) {
+            serviceIndent = indent;
+            service = key[1];
+            return;
+        }
+        const volume = /^\s*-\s*["']?(\.{1,2}(?:\/[^:"']*)?|\/[^:"']*):(\/[^:"']*)(?::\w+)?["']?\s*$/.exec(line);
+        if (service !== null && volume !== null) {
+            volumes.push({ service, hostPath: volume[1], containerPath: volume[2] });
+        }
+    });
+    return volumes;
+}
+
+/**
+ * Split a command template into the command and its arguments, putting the
+ * drupal-check arguments in place of `{args}`. Arguments may be quoted.
+ *
+ * @param template The command template, such as `ddev exec vendor/bin/drupal-check {args}`.
+ * @param args The drupal-check arguments.
+ * @return The command and its arguments.
+ */
+export function expandCommandTemplate(template: string, args: string[]): { command: string; args: string[] } {
+    const words: string[] = [];
+    const pattern = /"((?:[^"\\]|\\.)*)"|'([^']*)'|(\S+)/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(template)) !== null) {
+        if (match[3] === '{args}') {
+            words.push(...args);
+        } else {
+            words.push(match[1] !== undefined ? match[1].replace(/\\(.)/g, '$1') : match[2] !== undefined ? match[2] : match[3]);
+        }
+    }
+    if (template.indexOf('{args}') === -1) {
+        words.push(...args);
+    }
+    return { command: words[0], args: words.slice(1) };
+}
+
+/**
+ * Translates paths between the host and a container.
+ */
+export class PathMapper {
+
+    private mappings: { hostPath: string; containerPath: string }[];
+
+    /**
+     * @param pathMappings Container paths, keyed by absolute host path.
+     */
+    constructor(pathMappings: { [hostPath: string]: string }) {
+        this.mappings = Object.keys(pathMappings || {}).map(hostPath => ({
+            hostPath: path.resolve(hostPath),
+            containerPath: pathMappings[hostPath].replace(/\/+$/, '') || '/',
+        }));
+    }
+
+    /**
+     * Translate a host path to the container, using the most specific mapping.
+     */
+    public toContainer(hostPath: string): string {
+        const mapping = this.mappings
+            .filter(candidate => isPathInside(hostPath, candidate.hostPath))
+            .sort((a, b) => b.hostPath.length - a.hostPath.length)[0];
+        if (mapping === undefined) {
+            return hostPath;
+        }
+        const relative = path.relative(mapping.hostPath, hostPath).split(path.sep).join('/');
+        return relative !== '' ? path.posix.join(mapping.containerPath, relative) : mapping.containerPath;
+    }
+
+    /**
+     * Translate a container path back to the host, using the most specific mapping.
+     */
+    public toHost(containerPath: string): string {
+        const mapping = this.mappings
+            .filter(candidate => isContainerPathInside(containerPath, candidate.containerPath))
+            .sort((a, b) => b.containerPath.length - a.containerPath.length)[0];
+        if (mapping === undefined) {
+            return containerPath;
+        }
+        const relative = path.posix.relative(mapping.containerPath, containerPath);
+        return relative !== '' ? path.join(mapping.hostPath, ...relative.split('/')) : mapping.hostPath;
+    }
+
+    /**
+     * Translate the container paths mentioned in a message back to the host.
+     */
+    public replaceInText(text: string): string {
+        return text.replace(/\/[^\s"':,]*/g, candidate => {
+            return this.mappings.some(mapping => isContainerPathInside(candidate, mapping.containerPath)) ? this.toHost(candidate) : candidate;
+        });
+    }
+}
+
+function isContainerPathInside(containerPath: string, folderPath: string): boolean {
+    const relative = path.posix.relative(folderPath, containerPath);
+    return !relative.startsWith('..') && !path.posix.isAbsolute(relative);
+}
@@ -0,0 +1,80 @@
+"use strict";
+
+/**
+ * The details of a deprecation, as told by a drupal-check message such as
+ * "Call to deprecated function drupal_set_message(): in drupal:8.5.0 and is
+ * removed from drupal:9.0.0. Use \Drupal\Core\Messenger\MessengerInterface::addMessage()
+ * instead. See https://www.drupal.org/node/2774931".
+ */
+export interface DeprecationInfo {
+    // The deprecated function, method, class or constant, with its namespace.
+    symbol: string | null;
+    // The Drupal version the API was deprecated in, such as "8.5.0".
+    deprecatedIn: string | null;
+    // The Drupal version the API is removed from, such as "9.0.0".
+    removedIn: string | null;
+    // The API to use instead.
+    replacement: string | null;
+    // The change record describing the deprecation.
+    url: string | null;
+}
+
+const version = '(\\d+(?:\\.(?:\\d+|x))*)';
+const symbolPattern = /\bdeprecated (?:static )?(function|method|class constant|class|interface|trait|enum|constant|property) (\$?[\w\\]+(?:::\$?\w+)?)(\(\))?/i;
+const ownerPattern = /\bof (?:class|interface|trait|enum) ([\w\\]+)/i;
+const deprecatedPatterns = [
+    new RegExp(`\\bdeprecated in drupal:${version}`, 'i'),
+    new RegExp(`\\bin drupal:${version} and (?:is |will be )?removed\\b`, 'i'),
+];
+const removedPattern = new RegExp(`\\bremoved (?:from|in) drupal:${version}`, 'i');
+const replacementPattern = /\bUse (.+?) instead\b/i;
+const urlPattern = /\bhttps?:\/\/[^\s<>"')]+/i;
+
+/**
+ * Parse the details of a deprecation from a drupal-check message.
+ *
+ * @param message The drupal-check message.
+ * @return DeprecationInfo The details, or null when the message tells none of them.
+ */
+export function parseDeprecation(message: string): DeprecationInfo | null {
+    const info: DeprecationInfo = {
+        symbol: parseSymbol(message),
+        deprecatedIn: matchFirst(deprecatedPatterns, message),
+        removedIn: matchFirst([removedPattern], message),
+        replacement: matchFirst([replacementPattern], message),
+        url: matchFirst([urlPattern], message, 0),
+    };
+    if (info.url !== null) {
+        info.url = info.url.replace(/[.,;:]+$/, '');
+    }
+    const hasDetails = Object.keys(info).some(key => info[key] !== null);
+    return hasDetails ? info : null;
+}
+
+/**
+ * Get the deprecated symbol named by a message. Methods are qualified with
+ * their class when the message names it.
+ */
+function parseSymbol(message: string): string | null {
+    const match = symbolPattern.exec(message);
+    if (match === null) {
+        return null;
+    }
+    const kind = match[1].toLowerCase().replace(/^class (?=constant)/, '');
+    const parentheses = match[3] || '';
+    const owner = ownerPattern.exec(message.slice(match.index + match[0].length));
+    if (owner !== null && match[2].indexOf('::') === -1 && ['method', 'constant', 'property'].indexOf(kind) !== -1) {
+        return `${owner[1]}::${match[2]}${parentheses}`;
+    }
+    return match[2] + parentheses;
+}
+
+function matchFirst(patterns: RegExp[], text: string, group = 1): string | null {
+    for (const pattern of patterns) {
+        const match = pattern.exec(text);
+        if (match !== null) {
+            return match[group].trim();
+        }
+    }
+    return null;
+}
@@ -0,0 +1,58 @@
+"use strict";
+import { Diagnostic } from "vscode-languageserver";
+import { MessageCategory } from './classifier';
+import { DeprecationInfo } from './deprecation';
+import { CheckMode } from './settings';
+
+/**
+ * Diagnostic tags, added in version 3.15 of the language server protocol.
+ * The vscode-languageserver version in use predates them.
+ */
+export enum DiagnosticTag {
+    Unnecessary = 1,
+    Deprecated = 2,
+}
+
+/**
+ * Details about a finding kept with its diagnostic.
+ */
+export interface DrupalCheckDiagnosticData {
+    // Whether PHPStan allows ignoring the finding.
+    ignorable: boolean;
+    // What the finding is about, for findings of drupal-check.
+    category?: MessageCategory;
+    // Whether the finding is in the baseline, and only kept to be shown as a hint.
+    baselined?: boolean;
+    // The details of the deprecation the finding reports, if any.
+    deprecation?: DeprecationInfo;
+}
+
+/**
+ * A diagnostic with the fields of newer protocol versions.
+ */
+export interface DrupalCheckDiagnostic extends Diagnostic {
+    tags?: DiagnosticTag[];
+    // Links the diagnostic to a page, added in version 3.16 of the protocol.
+    codeDescription?: { href: string };
+    data?: DrupalCheckDiagnosticData;
+}
+
+/**
+ * Whether two diagnostics report the same finding at the same place. Codes
+ * are not compared: the client turns the code of deprecations into a link to
+ * their change record, which it drops when sending the diagnostic back.
+ */
+export function isSameDiagnostic(a: Diagnostic, b: Diagnostic): boolean {
+    return a.message === b.message && a.source === b.source &&
+        a.range.start.line === b.range.start.line && a.range.start.character === b.range.start.character &&
+        a.range.end.line === b.range.end.line && a.range.end.character === b.range.end.character;
+}
+
+/**
+ * Get the code of a drupal-check finding: the check it came from and its
+ * category, such as "analysis/deprecation". The client keeps only the code,
+ * message and source of diagnostics, so the category travels in the code.
+ */
+export function getDiagnosticCode(mode: CheckMode, category: MessageCategory): string {
+    return `${mode}/${category}`;
+}
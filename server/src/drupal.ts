@@ -0,0 +1,158 @@
+"use strict";
+import * as path from "path";
+import * as fs from 'fs';
+import { ComposerJson, readComposerJson } from "./composer";
+import { ancestors } from "./paths";
+
+export interface DrupalProject {
+    // The directory holding core/lib/Drupal.php.
+    drupalRoot: string;
+    // The directory holding the composer.json of the project, or the Drupal
+    // root itself for installations without composer.
+    projectRoot: string;
+}
+
+export interface DrupalExtension {
+    // The machine name, taken from the name of the info file.
+    machineName: string;
+    // The human readable name from the info file.
+    name: string;
+    // The type from the info file: module, theme, profile or theme_engine.
+    type: string;
+    // The absolute path of the *.info.yml file.
+    infoFile: string;
+}
+
+// Directories commonly used as web root by composer based projects.
+const webRootCandidates = ['web', 'docroot', 'html', 'public'];
+
+/**
+ * Locate the Drupal installation a directory belongs to by walking up until
+ * either core/lib/Drupal.php is found or a composer.json names the web root.
+ *
+ * @param directory The directory of the document or folder to check.
+ * @return DrupalProject The Drupal and project roots, or null when none is found.
+ */
+export function findDrupalProject(directory: string): DrupalProject | null {
+    for (const current of ancestors(directory)) {
+        if (isDrupalRoot(current)) {
+            return { drupalRoot: current, projectRoot: findProjectRoot(current) };
+        }
+        const composerFile = path.join(current, 'composer.json');
+        if (fs.existsSync(composerFile)) {
+            const drupalRoot = getComposerDrupalRoot(current, readComposerJson(composerFile));
+            if (drupalRoot !== null) {
+                return { drupalRoot, projectRoot: current };
+            }
+        }
+    }
+    return null;
+}
+
+function isDrupalRoot(directory: string): boolean {
+    return fs.existsSync(path.join(directory, 'core', 'lib', 'Drupal.php'));
+}
+
+/**
+ * Find the closest composer project at or above the Drupal root.
+ */
+function findProjectRoot(drupalRoot: string): string {
+    const projectRoot = ancestors(drupalRoot).find(current => fs.existsSync(path.join(current, 'composer.json')));
+    return projectRoot !== undefined ? projectRoot : drupalRoot;
+}
+
+/**
+ * Get the Drupal root configured by the drupal-scaffold web-root location or
+ * the drupal-core installer path, falling back to common web root names.
+ */
+function getComposerDrupalRoot(projectRoot: string, composer: ComposerJson): string | null {
+    const extra = composer.extra || {};
+    const locations = extra['drupal-scaffold'] && extra['drupal-scaffold'].locations;
+    if (locations && typeof locations['web-root'] === 'string') {
+        return path.resolve(projectRoot, locations['web-root']);
+    }
+    const installerPaths = extra['installer-paths'] || {};
+    for (const installPath of Object.keys(installerPaths)) {
+        const types = installerPaths[installPath];
+        if (Array.isArray(types) && types.indexOf('type:drupal-core') !== -1) {
+            return path.dirname(path.resolve(projectRoot, installPath));
+        }
+    }
+    for (const candidate of webRootCandidates) {
+        const drupalRoot = path.join(projectRoot, candidate);
+        if (isDrupalRoot(drupalRoot)) {
+            return drupalRoot;
+        }
+    }
+    return null;
+}
+
+/**
+ * Find the Drupal extension a file belongs to, through the nearest directory
+ * holding a *.info.yml file.
+ *
+ * @param filePath The absolute path of a file.
+ * @param cache The extensions already looked up, keyed by directory.
+ * @return DrupalExtension The extension, or null when the file belongs to none.
+ */
+export function findExtension(filePath: string, cache: Map<string, DrupalExtension | null> = new Map()): DrupalExtension | null {
+    const directories = ancestors(path.dirname(filePath));
+    const visited: string[] = [];
+    let extension: DrupalExtension | null = null;
+    for (const directory of directories) {
+        if (cache.has(directory)) {
+            extension = cache.get(directory);
+            break;
+        }
+        visited.push(directory);
+        extension = readExtension(directory);
+        if (extension !== null) {
+            break;
+        }
+    }
+    visited.forEach(directory => cache.set(directory, extension));
+    return extension;
+}
+
+/**
+ * Read the extension defined in a directory, if any.
+ */
+function readExtension(directory: string): DrupalExtension | null {
+    let infoFile: string | undefined;
+    try {
+        infoFile = fs.readdirSync(directory).find(file => file.endsWith('.info.yml'));
+    } catch (error) {
+        return null;
+    }
+    if (infoFile === undefined) {
+        return null;
+    }
+    const machineName = infoFile.slice(0, -'.info.yml'.length);
+    const info = readInfoFile(path.join(directory, infoFile));
+    return {
+        machineName,
+        name: info.name || machineName,
+        type: info.type || 'module',
+        infoFile: path.join(directory, infoFile),
+    };
+}
+
+/**
+ * Read the top level scalar keys of an info file.
+ */
+function readInfoFile(infoFile: string): { [key: string]: string } {
+    const info: { [key: string]: string } = {};
+    let text: string;
+    try {
+        text = fs.readFileSync(infoFile, 'utf8');
+    } catch (error) {
+        return info;
+    }
+    text.split(/\r?\n/).forEach(line => {
+        const match = /^([\w-]+)\s*:\s*(.*?)\s*$/.exec(line);
+        if (match !== null && match[2] !== '') {
+            info[match[1]] = match[2].replace(/^(["'])(.*)\1$/, '$2');
+        }
+    });
+    return info;
+}
@@ -0,0 +1,46 @@
+"use strict";
+
+export type CheckErrorKind =
+    'notFound' |
+    'notExecutable' |
+    'timeout' |
+    'outOfMemory' |
+    'autoload' |
+    'invalidJson' |
+    'crashed';
+
+/**
+ * A failure to run drupal-check, classified so the user can be told how to
+ * fix it.
+ */
+export class CheckError extends Error {
+
+    readonly kind: CheckErrorKind;
+    // The setting that likely fixes the failure, if any.
+    readonly setting: string | null;
+
+    constructor(kind: CheckErrorKind, message: string, setting: string | null = null) {
+        super(message);
+        this.kind = kind;
+        this.setting = setting;
+    }
+}
+
+const outOfMemoryPattern = /Allowed memory size of \d+ bytes exhausted|reached configured PHP memory limit|Out of memory/i;
+const autoloadPattern = /autoload\.php|autoloader|Failed opening required|Could not (?:detect|find|locate) (?:the )?Drupal root/i;
+
+/**
+ * Recognise why drupal-check failed to produce a report from its output.
+ *
+ * @param output What the process wrote to stdout and stderr.
+ * @return CheckErrorKind The kind of failure, or null when it is not recognised.
+ */
+export function classifyFailure(output: string): CheckErrorKind | null {
+    if (outOfMemoryPattern.test(output)) {
+        return 'outOfMemory';
+    }
+    if (autoloadPattern.test(output)) {
+        return 'autoload';
+    }
+    return null;
+}
@@ -0,0 +1,239 @@
+"use strict";
+import * as path from "path";
+import * as fs from 'fs';
+import { DiagnosticSeverity, Files } from "vscode-languageserver";
+import { DrupalCheckDiagnostic } from './diagnostic';
+import { hash } from './cache';
+import { filePathToUri } from './paths';
+
+export type ExportFormat = 'sarif' | 'checkstyle' | 'gitlab';
+
+export interface ExportSummary {
+    findings: number;
+    files: number;
+}
+
+interface ExportedFinding {
+    // The path of the file, relative to the base path when inside it.
+    filePath: string;
+    diagnostic: DrupalCheckDiagnostic;
+}
+
+/**
+ * Write the findings of a file or scan in a format CI tools understand.
+ * Locations are taken from the diagnostics, so they match the editor.
+ *
+ * @param results The diagnostics, keyed by document uri.
+ * @param exportPath The absolute path the findings are written to.
+ * @param format The format of the file.
+ * @param basePath The directory paths are made relative to, usually the workspace folder.
+ * @return ExportSummary The number of findings and files written.
+ */
+export function writeExport(results: Map<string, DrupalCheckDiagnostic[]>, exportPath: string, format: ExportFormat, basePath: string): ExportSummary {
+    const findings: ExportedFinding[] = [];
+    Array.from(results.keys()).sort().forEach(uri => {
+        const filePath = getExportPath(Files.uriToFilePath(uri), basePath);
+        results.get(uri)
+            // Baselined findings are known and accepted; CI does not report them either.
+            .filter(diagnostic => diagnostic.source === 'drupalchecker' && !(diagnostic.data && diagnostic.data.baselined))
+            .forEach(diagnostic => findings.push({ filePath, diagnostic }));
+    });
+    let text: string;
+    switch (format) {
+        case 'sarif':
+            text = formatSarif(findings, basePath);
+            break;
+        case 'checkstyle':
+            text = formatCheckstyle(findings);
+            break;
+        case 'gitlab':
+            text = formatGitLab(findings);
+            break;
+    }
+    fs.writeFileSync(exportPath, text);
+    return { findings: findings.length, files: new Set(findings.map(finding => finding.filePath)).size };
+}
+
+function getExportPath(filePath: string, basePath: string): string {
+    const relative = path.relative(basePath, filePath);
+    if (relative.startsWith('..') || path.isAbsolute(relative)) {
+        return filePath.split(path.sep).join('/');
+    }
+    return relative.split(path.sep).join('/');
+}
+
+interface SarifRule {
+    id: string;
+    helpUri?: string;
+}
+
+/**
+ * Format findings as a SARIF 2.1.0 log, with a rule per check mode and change record.
+ */
+function formatSarif(findings: ExportedFinding[], basePath: string): string {
+    const rules = new Map<string, SarifRule>();
+    findings.forEach(finding => {
+        const rule = getSarifRule(finding.diagnostic);
+        rules.set(rule.id, rule);
+    });
+    const ruleIds = Array.from(rules.keys()).sort();
+    const log = {
+        $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+        version: '2.1.0',
+        runs: [{
+            tool: {
+                driver: {
+                    name: 'drupal-check',
+                    informationUri: 'https://github.com/mglaman/drupal-check',
+                    rules: ruleIds.map(id => rules.get(id)),
+                },
+            },
+            originalUriBaseIds: {
+                SRCROOT: { uri: filePathToUri(basePath).replace(/\/?$/, '/') },
+            },
+            results: findings.map(finding => {
+                const { range } = finding.diagnostic;
+                const ruleId = getSarifRule(finding.diagnostic).id;
+                return {
+                    ruleId,
+                    ruleIndex: ruleIds.indexOf(ruleId),
+                    level: getSarifLevel(finding.diagnostic.severity),
+                    message: { text: finding.diagnostic.message },
+                    locations: [{
+                        physicalLocation: {
+                            artifactLocation: path.isAbsolute(finding.filePath) ?
+                                { uri: filePathToUri(finding.filePath) } :
+                                { uri: encodeURI(finding.filePath), uriBaseId: 'SRCROOT' },
+                            // SARIF lines and columns start at 1, and the end column is exclusive.
+                            region: {
+                                startLine: range.start.line + 1,
+                                startColumn: range.start.character + 1,
+                                endLine: range.end.line + 1,
+                                endColumn: range.end.character + 1,
+                            },
+                        },
+                    }],
+                    partialFingerprints: { primaryLocationLineHash: getFingerprint(finding) },
+                };
+            }),
+        }],
+    };
+    return JSON.stringify(log, null, 2) + '\n';
+}
+
+/**
+ * Get the rule of a finding. Findings linking a change record get a rule of
+ * their own, as SARIF only knows help links on rules.
+ */
+function getSarifRule(diagnostic: DrupalCheckDiagnostic): SarifRule {
+    const mode = String(diagnostic.code);
+    if (!diagnostic.codeDescription) {
+        return { id: mode };
+    }
+    const href = diagnostic.codeDescription.href;
+    // Change records are drupal.org nodes: https://www.drupal.org/node/3123456.
+    const name = href.replace(/[/#?]+$/, '').split('/').pop();
+    return { id: `${mode}/${name}`, helpUri: href };
+}
+
+function getSarifLevel(severity: DiagnosticSeverity | undefined): string {
+    switch (severity) {
+        case DiagnosticSeverity.Warning:
+            return 'warning';
+        case DiagnosticSeverity.Information:
+        case DiagnosticSeverity.Hint:
+            return 'note';
+        default:
+            return 'error';
+    }
+}
+
+/**
+ * Format findings as Checkstyle XML, as written by `phpstan --error-format=checkstyle`.
+ */
+function formatCheckstyle(findings: ExportedFinding[]): string {
+    const lines = ['<?xml version="1.0" encoding="UTF-8"?>', '<checkstyle>'];
+    let currentFile: string | null = null;
+    findings.forEach(finding => {
+        if (finding.filePath !== currentFile) {
+            if (currentFile !== null) {
+                lines.push('</file>');
+            }
+            currentFile = finding.filePath;
+            lines.push(`<file name="${escapeXml(finding.filePath)}">`);
+        }
+        const { range, message, severity, code } = finding.diagnostic;
+        const attributes = [
+            `line="${range.start.line + 1}"`,
+            `column="${range.start.character + 1}"`,
+            `severity="${getCheckstyleSeverity(severity)}"`,
+            `message="${escapeXml(message)}"`,
+            `source="drupalchecker.${escapeXml(String(code))}"`,
+        ];
+        lines.push(`  <error ${attributes.join(' ')} />`);
+    });
+    if (currentFile !== null) {
+        lines.push('</file>');
+    }
+    lines.push('</checkstyle>');
+    return lines.join('\n') + '\n';
+}
+
+function getCheckstyleSeverity(severity: DiagnosticSeverity | undefined): string {
+    switch (severity) {
+        case DiagnosticSeverity.Warning:
+            return 'warning';
+        case DiagnosticSeverity.Information:
+        case DiagnosticSeverity.Hint:
+            return 'info';
+        default:
+            return 'error';
+    }
+}
+
+/**
+ * Format findings as a GitLab Code Quality report.
+ */
+function formatGitLab(findings: ExportedFinding[]): string {
+    const issues = findings.map(finding => {
+        const { range, message, severity, code } = finding.diagnostic;
+        return {
+            description: message,
+            check_name: `drupalchecker.${code}`,
+            fingerprint: getFingerprint(finding),
+            severity: getGitLabSeverity(severity),
+            location: {
+                path: finding.filePath,
+                // GitLab lines and columns start at 1.
+                positions: {
+                    begin: { line: range.start.line + 1, column: range.start.character + 1 },
+                    end: { line: range.end.line + 1, column: range.end.character + 1 },
+                },
+            },
+        };
+    });
+    return JSON.stringify(issues, null, 2) + '\n';
+}
+
+function getGitLabSeverity(severity: DiagnosticSeverity | undefined): string {
+    switch (severity) {
+        case DiagnosticSeverity.Warning:
+            return 'minor';
+        case DiagnosticSeverity.Information:
+        case DiagnosticSeverity.Hint:
+            return 'info';
+        default:
+            return 'major';
+    }
+}
+
+/**
+ * Identify a finding across runs by its file, line and message.
+ */
+function getFingerprint(finding: ExportedFinding): string {
+    return hash(finding.filePath, String(finding.diagnostic.range.start.line), finding.diagnostic.message);
+}
+
+function escapeXml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/\r?\n/g, '&#10;');
+}
@@ -0,0 +1,61 @@
+"use strict";
+import { Hover, MarkupKind, Position, Range } from "vscode-languageserver";
+import { DrupalCheckDiagnostic } from './diagnostic';
+import { DeprecationInfo } from './deprecation';
+
+/**
+ * Describe the deprecations found at a position of a document.
+ *
+ * @param diagnostics The diagnostics published for the document.
+ * @param position The position under the cursor.
+ * @return Hover A markdown card for each deprecation, or null when there is none.
+ */
+export function getHover(diagnostics: DrupalCheckDiagnostic[], position: Position): Hover | null {
+    const found = diagnostics.filter(diagnostic => {
+        return diagnostic.source === 'drupalchecker' && diagnostic.data && diagnostic.data.deprecation && contains(diagnostic.range, position);
+    });
+    if (found.length === 0) {
+        return null;
+    }
+    return {
+        contents: {
+            kind: MarkupKind.Markdown,
+            value: found.map(diagnostic => formatDeprecation(diagnostic.data.deprecation)).join('\n\n---\n\n'),
+        },
+        range: found[0].range,
+    };
+}
+
+function contains(range: Range, position: Position): boolean {
+    const afterStart = position.line > range.start.line ||
+        (position.line === range.start.line && position.character >= range.start.character);
+    const beforeEnd = position.line < range.end.line ||
+        (position.line === range.end.line && position.character <= range.end.character);
+    return afterStart && beforeEnd;
+}
+
+/**
+ * Format the details of a deprecation as a markdown card.
+ */
+function formatDeprecation(info: DeprecationInfo): string {
+    const lines: string[] = [];
+    lines.push(info.symbol !== null ? `**Deprecated:** \`${info.symbol}\`` : '**Deprecated API**');
+    const versions: string[] = [];
+    if (info.deprecatedIn !== null) {
+        versions.push(`Deprecated in Drupal ${info.deprecatedIn}`);
+    }
+    if (info.removedIn !== null) {
+        versions.push(`Removed from Drupal ${info.removedIn}`);
+    }
+    if (versions.length > 0) {
+        lines.push(versions.join(' · '));
+    }
+    if (info.replacement !== null) {
+        lines.push(`**Replacement:** \`${info.replacement}\``);
+    }
+    if (info.url !== null) {
+        lines.push(`[Change record](${info.url})`);
+    }
+    // Separate paragraphs, as single line breaks are joined in markdown.
+    return lines.join('\n\n');
+}
@@ -0,0 +1,55 @@
+"use strict";
+import * as strings from "./base/common/strings";
+import { Diagnostic, DiagnosticSeverity, Range } from "vscode-languageserver";
+import { DrupalCheckDiagnostic } from './diagnostic';
+import { StringResources as SR } from "./strings";
+import { parseDeprecation } from './deprecation';
+
+/**
+ * Keep at most the given number of problems of a document. The most severe
+ * findings are kept first and, among equally severe ones, those removed in
+ * the nearest Drupal version. A final information diagnostic tells how many
+ * problems were left out.
+ *
+ * @param diagnostics The diagnostics of a document.
+ * @param maxNumberOfProblems The limit; zero or less keeps every problem.
+ * @return Diagnostic[] The kept diagnostics, in their original order, and the summary.
+ */
+export function limitDiagnostics(diagnostics: Diagnostic[], maxNumberOfProblems: number): Diagnostic[] {
+    if (!(maxNumberOfProblems > 0) || diagnostics.length <= maxNumberOfProblems) {
+        return diagnostics;
+    }
+    const kept = new Set(diagnostics
+        .map((diagnostic, index) => ({ diagnostic, index, removal: getRemovalVersion(diagnostic.message) }))
+        .sort((a, b) => getSeverity(a.diagnostic) - getSeverity(b.diagnostic) || a.removal - b.removal || a.index - b.index)
+        .slice(0, maxNumberOfProblems)
+        .map(item => item.diagnostic));
+    const hidden = diagnostics.length - kept.size;
+    const summary: DrupalCheckDiagnostic = Diagnostic.create(
+        Range.create(0, 0, 0, 0),
+        strings.format(SR.ProblemsHidden, hidden),
+        DiagnosticSeverity.Information,
+        undefined,
+        'drupalchecker'
+    );
+    summary.data = { ignorable: false };
+    return diagnostics.filter(diagnostic => kept.has(diagnostic)).concat(summary);
+}
+
+function getSeverity(diagnostic: Diagnostic): number {
+    return diagnostic.severity !== undefined ? diagnostic.severity : DiagnosticSeverity.Error;
+}
+
+/**
+ * Get the Drupal version an API is removed in, as a sortable number.
+ *
+ * @return number The version, or Infinity when the message names none.
+ */
+function getRemovalVersion(message: string): number {
+    const deprecation = parseDeprecation(message);
+    if (deprecation === null || deprecation.removedIn === null) {
+        return Infinity;
+    }
+    const [major, minor] = deprecation.removedIn.split('.').map(part => parseInt(part, 10) || 0);
+    return major * 1000 + (minor || 0);
+}
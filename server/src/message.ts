@@ -3,3 +3,10 @@ export interface DrupalCheckMessage {
     line: number;
     ignorable: boolean;
 }
+
+export interface DrupalCheckReport {
+    // The messages of each file, keyed by absolute host path.
+    files: { [filePath: string]: { messages: DrupalCheckMessage[] } };
+    // Errors that are not tied to a line of a file.
+    errors: string[];
+}
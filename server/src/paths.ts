@@ -0,0 +1,37 @@
+"use strict";
+import * as path from "path";
+
+/**
+ * Convert a file system path into a file uri, encoded the same way VS Code
+ * encodes document uris.
+ */
+export function filePathToUri(filePath: string): string {
+    let pathName = filePath.replace(/\\/g, '/');
+    if (pathName[0] !== '/') {
+        pathName = '/' + pathName;
+    }
+    // VS Code uses lower case drive letters.
+    pathName = pathName.replace(/^\/([A-Za-z]):/, (match, drive: string) => `/${drive.toLowerCase()}:`);
+    return 'file://' + pathName.split('/').map(segment => encodeURIComponent(segment)).join('/');
+}
+
+/**
+ * Whether a path lies inside, or is equal to, a folder.
+ */
+export function isPathInside(filePath: string, folderPath: string): boolean {
+    const relative = path.relative(folderPath, filePath);
+    return !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
+/**
+ * List a directory followed by each of its parents, up to the file system root.
+ */
+export function ancestors(directory: string): string[] {
+    const directories = [path.resolve(directory)];
+    let parent = path.dirname(directories[0]);
+    while (parent !== directories[directories.length - 1]) {
+        directories.push(parent);
+        parent = path.dirname(parent);
+    }
+    return directories;
+}
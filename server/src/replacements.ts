@@ -0,0 +1,85 @@
+"use strict";
+
+export interface Replacement {
+    // The deprecated function, or Class::method for static methods.
+    symbol: string;
+    // The code replacing the call. {0}, {1}… insert the call arguments,
+    // {args} inserts all of them.
+    replacement: string;
+}
+
+/**
+ * Replacements for commonly used deprecated Drupal APIs. Entries from the
+ * drupalCheck.replacements setting take precedence.
+ */
+export const defaultReplacements: Replacement[] = [
+    { symbol: 'drupal_set_message', replacement: '\\Drupal::messenger()->addMessage({args})' },
+    { symbol: 'drupal_render', replacement: '\\Drupal::service(\'renderer\')->render({args})' },
+    { symbol: 'drupal_render_root', replacement: '\\Drupal::service(\'renderer\')->renderRoot({args})' },
+    { symbol: 'drupal_clear_css_cache', replacement: '\\Drupal::service(\'asset.css.collection_optimizer\')->deleteAll()' },
+    { symbol: 'drupal_clear_js_cache', replacement: '\\Drupal::service(\'asset.js.collection_optimizer\')->deleteAll()' },
+    { symbol: 'drupal_realpath', replacement: '\\Drupal::service(\'file_system\')->realpath({args})' },
+    { symbol: 'file_scan_directory', replacement: '\\Drupal::service(\'file_system\')->scanDirectory({args})' },
+    { symbol: 'file_create_url', replacement: '\\Drupal::service(\'file_url_generator\')->generateAbsoluteString({args})' },
+    { symbol: 'format_date', replacement: '\\Drupal::service(\'date.formatter\')->format({args})' },
+    { symbol: 'format_string', replacement: 'new \\Drupal\\Component\\Render\\FormattableMarkup({args})' },
+    { symbol: 'entity_load', replacement: '\\Drupal::entityTypeManager()->getStorage({0})->load({1})' },
+    { symbol: 'entity_load_multiple', replacement: '\\Drupal::entityTypeManager()->getStorage({0})->loadMultiple({1})' },
+    { symbol: 'entity_create', replacement: '\\Drupal::entityTypeManager()->getStorage({0})->create({1})' },
+    { symbol: 'entity_get_display', replacement: '\\Drupal::service(\'entity_display.repository\')->getViewDisplay({args})' },
+    { symbol: 'entity_get_form_display', replacement: '\\Drupal::service(\'entity_display.repository\')->getFormDisplay({args})' },
+    { symbol: 'node_load', replacement: '\\Drupal\\node\\Entity\\Node::load({0})' },
+    { symbol: 'node_load_multiple', replacement: '\\Drupal\\node\\Entity\\Node::loadMultiple({0})' },
+    { symbol: 'user_load', replacement: '\\Drupal\\user\\Entity\\User::load({0})' },
+    { symbol: 'user_load_multiple', replacement: '\\Drupal\\user\\Entity\\User::loadMultiple({0})' },
+    { symbol: 'db_query', replacement: '\\Drupal::database()->query({args})' },
+    { symbol: 'db_select', replacement: '\\Drupal::database()->select({args})' },
+    { symbol: 'db_insert', replacement: '\\Drupal::database()->insert({args})' },
+    { symbol: 'db_update', replacement: '\\Drupal::database()->update({args})' },
+    { symbol: 'db_delete', replacement: '\\Drupal::database()->delete({args})' },
+    { symbol: 'db_merge', replacement: '\\Drupal::database()->merge({args})' },
+    { symbol: 'db_transaction', replacement: '\\Drupal::database()->startTransaction({args})' },
+    { symbol: 'SafeMarkup::checkPlain', replacement: '\\Drupal\\Component\\Utility\\Html::escape({args})' },
+    { symbol: 'SafeMarkup::format', replacement: 'new \\Drupal\\Component\\Render\\FormattableMarkup({args})' },
+    { symbol: 'SafeMarkup::isSafe', replacement: '({0} instanceof \\Drupal\\Component\\Render\\MarkupInterface)' },
+    { symbol: 'Unicode::strlen', replacement: 'mb_strlen({args})' },
+    { symbol: 'Unicode::strtolower', replacement: 'mb_strtolower({args})' },
+    { symbol: 'Unicode::strtoupper', replacement: 'mb_strtoupper({args})' },
+    { symbol: 'Unicode::substr', replacement: 'mb_substr({args})' },
+];
+
+/**
+ * Find the replacement for a symbol, comparing without case.
+ *
+ * @param symbol The function name, or Class::method for static methods.
+ * @param replacements The replacements to search, in order of precedence.
+ * @return Replacement The replacement, or null if there is none.
+ */
+export function findReplacement(symbol: string, replacements: Replacement[]): Replacement | null {
+    const name = symbol.toLowerCase();
+    const replacement = replacements.find(candidate => candidate.symbol.toLowerCase() === name);
+    return replacement !== undefined ? replacement : null;
+}
+
+/**
+ * Build the replacement code for a call.
+ *
+ * @param replacement The replacement.
+ * @param args The source code of each argument of the call.
+ * @return string The code, or null when the call lacks an argument the replacement needs.
+ */
+export function applyReplacement(replacement: Replacement, args: string[]): string | null {
+    let missingArgument = false;
+    const code = replacement.replacement.replace(/{(args|\d+)}/g, (match, name: string) => {
+        if (name === 'args') {
+            return args.join(', ');
+        }
+        const index = parseInt(name, 10);
+        if (index >= args.length) {
+            missingArgument = true;
+            return '';
+        }
+        return args[index];
+    });
+    return missingArgument ? null : code;
+}
@@ -0,0 +1,182 @@
+"use strict";
+import * as path from "path";
+import * as fs from 'fs';
+import { DrupalCheckDiagnostic } from './diagnostic';
+import { DrupalExtension } from './drupal';
+import { Finding, groupFindings } from './aggregate';
+
+export type ReportFormat = 'markdown' | 'html';
+
+// A link shown in the report, pointing to a line of a file.
+interface Link {
+    text: string;
+    filePath: string;
+    line: number;
+}
+
+type Block =
+    { kind: 'heading'; level: number; text: string } |
+    { kind: 'paragraph'; text: string } |
+    { kind: 'table'; headers: string[]; rows: string[][] } |
+    { kind: 'findings'; items: { link: Link; message: string }[] };
+
+export interface ReportSummary {
+    findings: number;
+    files: number;
+    extensions: number;
+}
+
+/**
+ * Write an upgrade readiness report of the deprecations found by a scan,
+ * grouped by the Drupal extension they belong to, with counts per deprecated
+ * API and per removal version. Baselined deprecations are left out.
+ *
+ * @param results The diagnostics of the scan, keyed by document uri.
+ * @param reportPath The absolute path the report is written to; links are relative to it.
+ * @param format The format of the report.
+ * @return ReportSummary The totals of the report.
+ */
+export function writeReport(results: Map<string, DrupalCheckDiagnostic[]>, reportPath: string, format: ReportFormat): ReportSummary {
+    const groups = groupFindings(results);
+    const findings = groups.reduce((all, group) => all.concat(group.findings), <Finding[]>[]);
+    const summary: ReportSummary = {
+        findings: findings.length,
+        files: new Set(findings.map(finding => finding.filePath)).size,
+        extensions: groups.filter(group => group.extension !== null).length,
+    };
+
+    const blocks: Block[] = [
+        { kind: 'heading', level: 1, text: 'Drupal upgrade readiness report' },
+        { kind: 'paragraph', text: `${summary.findings} deprecations in ${summary.files} files of ${summary.extensions} extensions.` },
+        { kind: 'heading', level: 2, text: 'Extensions' },
+        {
+            kind: 'table',
+            headers: ['Extension', 'Type', 'Findings'],
+            rows: groups.map(group => [getTitle(group.extension), group.extension !== null ? group.extension.type : '', String(group.findings.length)]),
+        },
+        { kind: 'heading', level: 2, text: 'Removal versions' },
+        createCountTable('Removed from', findings.map(finding => finding.removedIn !== null ? `Drupal ${finding.removedIn}` : 'Unknown')),
+        { kind: 'heading', level: 2, text: 'Deprecated APIs' },
+        createCountTable('API', findings.map(finding => finding.api)),
+    ];
+    groups.forEach(group => {
+        blocks.push({ kind: 'heading', level: 2, text: getTitle(group.extension) });
+        if (group.extension !== null) {
+            const infoFile = path.relative(path.dirname(reportPath), group.extension.infoFile).split(path.sep).join('/');
+            blocks.push({ kind: 'paragraph', text: `${group.extension.type} ${group.extension.machineName}, ${infoFile}` });
+        }
+        blocks.push(
+            { kind: 'heading', level: 3, text: 'Deprecated APIs' },
+            createCountTable('API', group.findings.map(finding => finding.api)),
+            { kind: 'heading', level: 3, text: 'Removal versions' },
+            createCountTable('Removed from', group.findings.map(finding => finding.removedIn !== null ? `Drupal ${finding.removedIn}` : 'Unknown')),
+            { kind: 'heading', level: 3, text: 'Findings' },
+            {
+                kind: 'findings',
+                items: group.findings.map(finding => ({
+                    link: {
+                        text: `${path.relative(path.dirname(reportPath), finding.filePath).split(path.sep).join('/')}:${finding.line}`,
+                        filePath: finding.filePath,
+                        line: finding.line,
+                    },
+                    message: finding.message,
+                })),
+            }
+        );
+    });
+
+    fs.writeFileSync(reportPath, format === 'html' ? renderHtml(blocks) : renderMarkdown(blocks, path.dirname(reportPath)));
+    return summary;
+}
+
+function getTitle(extension: DrupalExtension | null): string {
+    return extension !== null ? extension.name : 'Other files';
+}
+
+/**
+ * Count how often each value occurs, most frequent first.
+ */
+function createCountTable(header: string, values: string[]): Block {
+    const counts: Map<string, number> = new Map();
+    values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+    const rows = Array.from(counts.keys())
+        .sort((a, b) => counts.get(b) - counts.get(a) || a.localeCompare(b))
+        .map(value => [value, String(counts.get(value))]);
+    return { kind: 'table', headers: [header, 'Findings'], rows };
+}
+
+function renderMarkdown(blocks: Block[], reportDir: string): string {
+    const lines: string[] = [];
+    blocks.forEach(block => {
+        switch (block.kind) {
+            case 'heading':
+                lines.push(`${'#'.repeat(block.level)} ${escapeMarkdown(block.text)}`, '');
+                break;
+            case 'paragraph':
+                lines.push(escapeMarkdown(block.text), '');
+                break;
+            case 'table':
+                lines.push(`| ${block.headers.map(escapeMarkdown).join(' | ')} |`);
+                lines.push(`|${block.headers.map(() => ' --- |').join('')}`);
+                block.rows.forEach(row => lines.push(`| ${row.map(escapeMarkdown).join(' | ')} |`));
+                lines.push('');
+                break;
+            case 'findings':
+                block.items.forEach(item => {
+                    const target = encodeURI(path.relative(reportDir, item.link.filePath).split(path.sep).join('/'));
+                    lines.push(`- [${escapeMarkdown(item.link.text)}](${target}#L${item.link.line}) ${escapeMarkdown(item.message)}`);
+                });
+                lines.push('');
+                break;
+        }
+    });
+    return lines.join('\n');
+}
+
+function renderHtml(blocks: Block[]): string {
+    const lines: string[] = [
+        '<!DOCTYPE html>',
+        '<html>',
+        '<head>',
+        '<meta charset="utf-8">',
+        '<title>Drupal upgrade readiness report</title>',
+        '<style>body { font-family: sans-serif; } table { border-collapse: collapse; } th, td { border: 1px solid #ccc; padding: 4px 8px; text-align: left; }</style>',
+        '</head>',
+        '<body>',
+    ];
+    blocks.forEach(block => {
+        switch (block.kind) {
+            case 'heading':
+                lines.push(`<h${block.level}>${escapeHtml(block.text)}</h${block.level}>`);
+                break;
+            case 'paragraph':
+                lines.push(`<p>${escapeHtml(block.text)}</p>`);
+                break;
+            case 'table':
+                lines.push('<table>');
+                lines.push(`<tr>${block.headers.map(header => `<th>${escapeHtml(header)}</th>`).join('')}</tr>`);
+                block.rows.forEach(row => lines.push(`<tr>${row.map(cell => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`));
+                lines.push('</table>');
+                break;
+            case 'findings':
+                lines.push('<ul>');
+                block.items.forEach(item => {
+                    // vscode:// links open the file at the line in VS Code.
+                    const target = encodeURI(`vscode://file/${item.link.filePath.split(path.sep).join('/').replace(/^\//, '')}:${item.link.line}`);
+                    lines.push(`<li><a href="${escapeHtml(target)}">${escapeHtml(item.link.text)}</a> ${escapeHtml(item.message)}</li>`);
+                });
+                lines.push('</ul>');
+                break;
+        }
+    });
+    lines.push('</body>', '</html>');
+    return lines.join('\n') + '\n';
+}
+
+function escapeMarkdown(text: string): string {
+    return text.replace(/\r?\n/g, ' ').replace(/[\\`*_[\]<>|]/g, '\\$&');
+}
+
+function escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
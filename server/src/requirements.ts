@@ -0,0 +1,229 @@
+"use strict";
+import * as path from "path";
+import * as fs from 'fs';
+import * as strings from "./base/common/strings";
+import { Diagnostic, DiagnosticSeverity, Range, TextDocument } from "vscode-languageserver";
+import { DrupalCheckDiagnostic } from './diagnostic';
+import { allowsVersion } from './composer';
+import { filePathToUri } from './paths';
+import { CheckerSettings } from './settings';
+import { StringResources as SR } from "./strings";
+
+// The packages whose constraint decides the Drupal core versions a composer.json allows.
+const corePackages = ['drupal/core', 'drupal/core-recommended'];
+
+// Directories never holding extensions of the project.
+const skippedDirectories = ['vendor', 'node_modules'];
+
+interface KeyValue {
+    key: string;
+    value: string;
+    // The offsets of the key in the text, quotes included.
+    start: number;
+    end: number;
+}
+
+// A problem found in a file, at the offsets of a key.
+interface Problem {
+    start: number;
+    end: number;
+    message: string;
+    severity: DiagnosticSeverity;
+}
+
+/**
+ * Checks the Drupal core versions allowed by `*.info.yml` files and by the
+ * `drupal/core` constraints of composer.json files against the target core
+ * version, which drupal-check does not look at.
+ */
+export class RequirementsCheck {
+
+    /**
+     * Whether a file is checked by this checker instead of drupal-check.
+     */
+    public static isRequirementsFile(filePath: string): boolean {
+        const fileName = path.basename(filePath);
+        return fileName.endsWith('.info.yml') || fileName === 'composer.json';
+    }
+
+    /**
+     * Check an info or composer.json file.
+     *
+     * @param document The document to check.
+     * @param settings The settings naming the target core version.
+     * @return Diagnostic[] The diagnostics, none when no target version is set.
+     */
+    public check(document: TextDocument, settings: CheckerSettings): Diagnostic[] {
+        if (!settings.targetCoreVersion) {
+            return [];
+        }
+        const text = document.getText();
+        const keys = document.uri.endsWith('.info.yml') ? this.checkInfoFile(text, settings.targetCoreVersion) : this.checkComposerJson(text, settings.targetCoreVersion);
+        return keys.map(({ start, end, message, severity }) => {
+            const diagnostic: DrupalCheckDiagnostic = Diagnostic.create(
+                Range.create(document.positionAt(start), document.positionAt(end)),
+                message,
+                severity,
+                'requirements',
+                'drupalchecker'
+            );
+            diagnostic.data = { ignorable: false };
+            return diagnostic;
+        });
+    }
+
+    /**
+     * Check every info and composer.json file of a folder, skipping Drupal
+     * core and vendor directories.
+     *
+     * @param folderPath The folder to check.
+     * @param settings The settings naming the target core version.
+     * @return Map<string, Diagnostic[]> The diagnostics of the files with problems, keyed by uri.
+     */
+    public checkFolder(folderPath: string, settings: CheckerSettings): Map<string, Diagnostic[]> {
+        const results: Map<string, Diagnostic[]> = new Map();
+        if (!settings.targetCoreVersion) {
+            return results;
+        }
+        findRequirementsFiles(folderPath).forEach(filePath => {
+            const uri = filePathToUri(filePath);
+            const languageId = filePath.endsWith('.json') ? 'json' : 'yaml';
+            const diagnostics = this.check(TextDocument.create(uri, languageId, 0, fs.readFileSync(filePath, 'utf8')), settings);
+            if (diagnostics.length > 0) {
+                results.set(uri, diagnostics);
+            }
+        });
+        return results;
+    }
+
+    private checkInfoFile(text: string, targetVersion: string): Problem[] {
+        const keys = readInfoKeys(text);
+        // Drupal core declares its own version instead of a requirement.
+        if (keys.has('version') && keys.get('version').value === 'VERSION') {
+            return [];
+        }
+        const requirement = keys.get('core_version_requirement');
+        if (requirement === undefined) {
+            const core = keys.get('core');
+            if (core !== undefined) {
+                return [{ start: core.start, end: core.end, message: strings.format(SR.CoreVersionRequirementLegacy, core.value, targetVersion), severity: DiagnosticSeverity.Error }];
+            }
+            const name = keys.get('name') || { start: 0, end: 0 };
+            return [{ start: name.start, end: name.end, message: strings.format(SR.CoreVersionRequirementMissing, targetVersion), severity: DiagnosticSeverity.Error }];
+        }
+        return checkConstraint(requirement, targetVersion, SR.CoreVersionRequirementIncompatible, [requirement.value, targetVersion]);
+    }
+
+    private checkComposerJson(text: string, targetVersion: string): Problem[] {
+        return readRequirements(text)
+            .filter(requirement => corePackages.indexOf(requirement.key) !== -1)
+            .map(requirement => checkConstraint(requirement, targetVersion, SR.ComposerCoreIncompatible, [requirement.key, requirement.value, targetVersion]))
+            .reduce((all, problems) => all.concat(problems), <Problem[]>[]);
+    }
+}
+
+/**
+ * Check that a constraint allows the target version, or report it on its key.
+ */
+function checkConstraint(entry: KeyValue, targetVersion: string, message: string, args: string[]): Problem[] {
+    const allowed = allowsVersion(entry.value, targetVersion);
+    if (allowed === null) {
+        return [{ start: entry.start, end: entry.end, message: strings.format(SR.InvalidVersionConstraint, entry.value), severity: DiagnosticSeverity.Warning }];
+    }
+    return allowed ? [] : [{ start: entry.start, end: entry.end, message: strings.format(message, ...args), severity: DiagnosticSeverity.Error }];
+}
+
+/**
+ * Read the top level scalar keys of an info file, with the offsets of the keys.
+ */
+function readInfoKeys(text: string): Map<string, KeyValue> {
+    const keys: Map<string, KeyValue> = new Map();
+    const pattern = /^([A-Za-z_][\w-]*)[ \t]*:[ \t]*(.*)$/gm;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+        const value = match[2].replace(/\s+#.*$/, '').trim().replace(/^(['"])(.*)\1$/, '$2');
+        keys.set(match[1], { key: match[1], value, start: match.index, end: match.index + match[1].length });
+    }
+    return keys;
+}
+
+/**
+ * Read the packages of the `require` section of a composer.json file, with
+ * the offsets of the package names. Invalid JSON yields what was read so far.
+ */
+function readRequirements(text: string): KeyValue[] {
+    const requirements: KeyValue[] = [];
+    // The key of each open object or array, from the outermost.
+    const stack: { isObject: boolean; key: string | null }[] = [];
+    let key: { value: string; start: number; end: number } | null = null;
+    let expectsKey = false;
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (char === '"') {
+            const start = i;
+            let value = '';
+            for (i++; i < text.length && text[i] !== '"'; i++) {
+                if (text[i] === '\\') {
+                    i++;
+                }
+                value += text[i];
+            }
+            const top = stack[stack.length - 1];
+            if (top && top.isObject && expectsKey) {
+                key = { value, start, end: i + 1 };
+                expectsKey = false;
+            } else if (key !== null && stack.length === 2 && stack[1].key === 'require') {
+                requirements.push({ key: key.value, value, start: key.start, end: key.end });
+            }
+        } else if (char === '{' || char === '[') {
+            stack.push({ isObject: char === '{', key: key !== null ? key.value : null });
+            key = null;
+            expectsKey = char === '{';
+        } else if (char === '}' || char === ']') {
+            stack.pop();
+            key = null;
+        } else if (char === ',') {
+            const top = stack[stack.length - 1];
+            expectsKey = top !== undefined && top.isObject;
+            key = null;
+        }
+    }
+    return requirements;
+}
+
+/**
+ * Find the info and composer.json files of a folder.
+ */
+function findRequirementsFiles(folderPath: string): string[] {
+    const files: string[] = [];
+    const directories = [folderPath];
+    while (directories.length > 0) {
+        const directory = directories.pop();
+        let names: string[];
+        try {
+            names = fs.readdirSync(directory);
+        } catch (error) {
+            continue;
+        }
+        names.forEach(name => {
+            const entryPath = path.join(directory, name);
+            let stats: fs.Stats;
+            try {
+                // Like the Dirent of withFileTypes, which needs Node 10.10, symbolic links are not followed.
+                stats = fs.lstatSync(entryPath);
+            } catch (error) {
+                return;
+            }
+            if (stats.isDirectory()) {
+                // Drupal core is not upgraded extension by extension.
+                const isCore = name === 'core' && fs.existsSync(path.join(entryPath, 'lib', 'Drupal.php'));
+                if (!name.startsWith('.') && skippedDirectories.indexOf(name) === -1 && !isCore) {
+                    directories.push(entryPath);
+                }
+            } else if (RequirementsCheck.isRequirementsFile(entryPath)) {
+                files.push(entryPath);
+            }
+        });
+    }
+    return files.sort();
+}
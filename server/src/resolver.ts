@@ -0,0 +1,154 @@
+"use strict";
+import * as path from "path";
+import * as fs from 'fs';
+import * as os from 'os';
+import * as strings from "./base/common/strings";
+import * as extfs from "./base/node/extfs";
+import { StringResources as SR } from "./strings";
+import { ComposerJson, readComposerJson } from "./composer";
+import { CheckError } from "./errors";
+
+export type ExecutableSource = 'setting' | 'composer' | 'path' | 'global';
+
+export interface ResolvedExecutable {
+    path: string;
+    source: ExecutableSource;
+}
+
+const homeDirectory = os.homedir();
+const isWindows = /^win/.test(process.platform);
+const executableNames = isWindows ? ['drupal-check.bat', 'drupal-check'] : ['drupal-check'];
+const setting = 'drupalCheck.executablePath';
+
+export class ExecutablePathResolver {
+
+    private searched: string[] = [];
+
+    /**
+     * Resolve the drupal-check executable for a directory. Tries, in order,
+     * the configured path, the composer vendor/bin of the enclosing projects,
+     * the PATH environment variable and the global composer home.
+     *
+     * @param executablePath The configured executable path, if any.
+     * @param directory The directory of the document or folder to check.
+     */
+    public async resolve(executablePath: string | null, directory: string): Promise<ResolvedExecutable> {
+        this.searched = [];
+
+        if (executablePath) {
+            const expandedPath = this.expandHome(executablePath);
+            // A bare command name is left for the operating system to look up.
+            const isCommandName = path.basename(expandedPath) === expandedPath;
+            if (!isCommandName && !this.isExecutable(expandedPath)) {
+                throw new CheckError('notFound', strings.format(SR.ConfiguredExecutableNotFoundError, expandedPath), setting);
+            }
+            return { path: expandedPath, source: 'setting' };
+        }
+
+        const composerPath = await this.resolveComposer(directory);
+        if (composerPath !== null) {
+            return { path: composerPath, source: 'composer' };
+        }
+
+        const environmentPath = this.findIn((process.env.PATH || '').split(path.delimiter));
+        if (environmentPath !== null) {
+            return { path: environmentPath, source: 'path' };
+        }
+        this.searched.push('PATH');
+
+        const globalBinDirs = this.getGlobalComposerBinDirs();
+        const globalPath = this.findIn(globalBinDirs);
+        if (globalPath !== null) {
+            return { path: globalPath, source: 'global' };
+        }
+        this.searched.push(...globalBinDirs);
+
+        throw new CheckError('notFound', strings.format(SR.UnableToLocateDrupalCheckError, this.searched.join(', ')), setting);
+    }
+
+    /**
+     * Walk up from the directory through every composer project and look for
+     * drupal-check in its bin directory.
+     */
+    private async resolveComposer(directory: string): Promise<string | null> {
+        const root = path.parse(directory).root;
+        let current = directory;
+        while (current) {
+            const composerFile = await extfs.findAsync(root, current, 'composer.json');
+            if (composerFile === null) {
+                break;
+            }
+            const projectDir = path.dirname(composerFile);
+            const composer = readComposerJson(composerFile);
+            const binDir = path.resolve(projectDir, this.getBinDir(composer));
+            const executable = this.findIn([binDir]);
+            if (executable !== null) {
+                return executable;
+            }
+            this.searched.push(binDir);
+            if (this.requiresDrupalCheck(composer) && fs.existsSync(path.join(projectDir, 'composer.lock'))) {
+                throw new CheckError('notFound', strings.format(SR.ComposerDependencyNotFoundError, binDir), setting);
+            }
+            const parent = path.dirname(projectDir);
+            current = parent !== projectDir ? parent : null;
+        }
+        return null;
+    }
+
+    private getBinDir(composer: ComposerJson): string {
+        const config = composer.config || {};
+        if (typeof config['bin-dir'] === 'string') {
+            return config['bin-dir'];
+        }
+        const vendorDir = typeof config['vendor-dir'] === 'string' ? config['vendor-dir'] : 'vendor';
+        return path.join(vendorDir, 'bin');
+    }
+
+    private requiresDrupalCheck(composer: ComposerJson): boolean {
+        const packageName = 'mglaman/drupal-check';
+        return !!((composer.require && composer.require[packageName]) ||
+            (composer['require-dev'] && composer['require-dev'][packageName]));
+    }
+
+    private getGlobalComposerBinDirs(): string[] {
+        const homes: string[] = [];
+        if (process.env.COMPOSER_HOME) {
+            homes.push(process.env.COMPOSER_HOME);
+        }
+        if (isWindows) {
+            if (process.env.APPDATA) {
+                homes.push(path.join(process.env.APPDATA, 'Composer'));
+            }
+        } else {
+            const configHome = process.env.XDG_CONFIG_HOME || path.join(homeDirectory, '.config');
+            homes.push(path.join(configHome, 'composer'));
+            homes.push(path.join(homeDirectory, '.composer'));
+        }
+        return homes.map(home => path.join(home, 'vendor', 'bin'));
+    }
+
+    private findIn(directories: string[]): string | null {
+        for (const directory of directories.filter(directory => directory !== '')) {
+            for (const name of executableNames) {
+                const candidate = path.join(directory, name);
+                if (this.isExecutable(candidate)) {
+                    return candidate;
+                }
+            }
+        }
+        return null;
+    }
+
+    private isExecutable(filePath: string): boolean {
+        try {
+            fs.accessSync(filePath, isWindows ? fs.constants.F_OK : fs.constants.X_OK);
+            return fs.statSync(filePath).isFile();
+        } catch (error) {
+            return false;
+        }
+    }
+
+    private expandHome(filePath: string): string {
+        return filePath.startsWith("~/") ? filePath.replace("~", homeDirectory) : filePath;
+    }
+}
@@ -0,0 +1,200 @@
+"use strict";
+import { ChildProcess } from 'child_process';
+// Unlike child_process, cross-spawn runs .bat and .cmd files on Windows, quoting their arguments.
+import { spawn } from 'cross-spawn';
+
+export interface RunOptions {
+    cwd?: string;
+    env?: NodeJS.ProcessEnv;
+    input?: string;
+    timeout?: number;
+}
+
+export interface RunResult {
+    stdout: string;
+    stderr: string;
+    exitCode: number | null;
+    signal: string | null;
+    timedOut: boolean;
+    cancelled: boolean;
+    // How long the process ran, in milliseconds.
+    duration: number;
+}
+
+export interface FinishedRun {
+    command: string;
+    args: string[];
+    options: RunOptions;
+    result: RunResult;
+}
+
+interface Job {
+    key: string;
+    command: string;
+    args: string[];
+    options: RunOptions;
+    process: ChildProcess | null;
+    cancelled: boolean;
+    resolve: (result: RunResult) => void;
+    reject: (error: Error) => void;
+}
+
+// Time given to a process to exit after SIGTERM before it is killed for good.
+const killGraceTime = 1000 * 5; // ms * s: 5 seconds
+
+export class ProcessRunner {
+
+    private maxConcurrency: number;
+    private queue: Job[] = [];
+    private running: Map<string, Job> = new Map();
+    private listeners: ((run: FinishedRun) => void)[] = [];
+
+    constructor(maxConcurrency: number) {
+        this.maxConcurrency = Math.max(1, maxConcurrency);
+    }
+
+    /**
+     * Change the number of processes allowed to run at the same time.
+     */
+    public setMaxConcurrency(maxConcurrency: number): void {
+        this.maxConcurrency = Math.max(1, maxConcurrency);
+        this.next();
+    }
+
+    /**
+     * Register a listener called whenever a started process exits, including
+     * processes that were cancelled or timed out.
+     */
+    public onDidFinish(listener: (run: FinishedRun) => void): void {
+        this.listeners.push(listener);
+    }
+
+    /**
+     * Queue a process for the given key. Any queued or running process for
+     * the same key is cancelled first, so only the latest request survives.
+     */
+    public run(key: string, command: string, args: string[], options: RunOptions = {}): Promise<RunResult> {
+        this.cancel(key);
+        return new Promise<RunResult>((resolve, reject) => {
+            this.queue.push({ key, command, args, options, process: null, cancelled: false, resolve, reject });
+            this.next();
+        });
+    }
+
+    /**
+     * Cancel the queued or running process for the given key. Keys may be
+     * scoped with '#': cancelling 'a' also cancels 'a#b'.
+     */
+    public cancel(key: string): void {
+        this.queue.filter(job => this.matches(job.key, key)).forEach(job => {
+            this.queue.splice(this.queue.indexOf(job), 1);
+            job.resolve(this.createCancelledResult());
+        });
+        Array.from(this.running.values()).filter(job => this.matches(job.key, key)).forEach(job => {
+            this.running.delete(job.key);
+            job.cancelled = true;
+            this.kill(job.process);
+        });
+        this.next();
+    }
+
+    /**
+     * Cancel every queued and running process whose key passes the filter.
+     */
+    public cancelWhere(filter: (key: string) => boolean): void {
+        const keys = this.queue.map(job => job.key).concat(Array.from(this.running.keys()));
+        keys.filter(filter).forEach(key => this.cancel(key));
+    }
+
+    /**
+     * Cancel every queued and running process.
+     */
+    public cancelAll(): void {
+        this.cancelWhere(() => true);
+    }
+
+    private matches(jobKey: string, key: string): boolean {
+        return jobKey === key || jobKey.startsWith(key + '#');
+    }
+
+    private next(): void {
+        while (this.running.size < this.maxConcurrency && this.queue.length > 0) {
+            this.start(this.queue.shift());
+        }
+    }
+
+    private start(job: Job): void {
+        const { cwd, env, input, timeout } = job.options;
+        let stdout = '';
+        let stderr = '';
+        let timedOut = false;
+        let timer: NodeJS.Timer = null;
+        const startTime = Date.now();
+
+        try {
+            job.process = spawn(job.command, job.args, { cwd, env });
+        } catch (error) {
+            job.reject(error);
+            return;
+        }
+        this.running.set(job.key, job);
+
+        const finish = (callback: () => void) => {
+            if (timer !== null) {
+                clearTimeout(timer);
+                timer = null;
+            }
+            if (this.running.get(job.key) === job) {
+                this.running.delete(job.key);
+                this.next();
+            }
+            callback();
+        };
+
+        if (timeout > 0) {
+            timer = setTimeout(() => {
+                timedOut = true;
+                this.kill(job.process);
+            }, timeout);
+        }
+
+        job.process.stdout.setEncoding('utf8');
+        job.process.stdout.on('data', (data: string) => stdout += data);
+        job.process.stderr.setEncoding('utf8');
+        job.process.stderr.on('data', (data: string) => stderr += data);
+        job.process.on('error', (error: Error) => finish(() => job.reject(error)));
+        job.process.on('close', (exitCode: number | null, signal: string | null) => finish(() => {
+            const result: RunResult = {
+                stdout,
+                stderr,
+                exitCode,
+                signal,
+                timedOut,
+                cancelled: job.cancelled,
+                duration: Date.now() - startTime,
+            };
+            this.listeners.forEach(listener => listener({ command: job.command, args: job.args, options: job.options, result }));
+            job.resolve(result);
+        }));
+
+        // The child may exit before reading its input; ignore the broken pipe.
+        job.process.stdin.on('error', () => undefined);
+        job.process.stdin.end(input);
+    }
+
+    private kill(child: ChildProcess | null): void {
+        if (child === null || child.killed) {
+            return;
+        }
+        child.kill('SIGTERM');
+        setTimeout(() => {
+            if (child.exitCode === null && child.signalCode === null) {
+                child.kill('SIGKILL');
+            }
+        }, killGraceTime).unref();
+    }
+
+    private createCancelledResult(): RunResult {
+        return { stdout: '', stderr: '', exitCode: null, signal: null, timedOut: false, cancelled: true, duration: 0 };
+    }
+}
@@ -6,6 +6,7 @@
 import * as strings from "./base/common/strings";
 
 import {
+    CancellationToken,
     createConnection,
     Diagnostic,
     DidChangeConfigurationNotification,
@@ -16,10 +17,30 @@ import {
     TextDocumentIdentifier,
     ProposedFeatures,
     IPCMessageReader,
-    IPCMessageWriter
+    IPCMessageWriter,
+    MessageActionItem,
+    WorkspaceFolder
 } from 'vscode-languageserver';
 
 import { DrupalCheck } from "./checker";
+import { RequirementsCheck } from "./requirements";
+import { FinishedRun, ProcessRunner } from "./runner";
+import { isPathInside } from "./paths";
+import { ExecutablePathResolver, ResolvedExecutable } from "./resolver";
+import { findDrupalProject } from "./drupal";
+import { detectContainer } from "./container";
+import { getCodeActions } from "./codeActions";
+import { getHover } from "./hover";
+import { DrupalCheckDiagnostic, isSameDiagnostic } from "./diagnostic";
+import { Baseline } from "./baseline";
+import { ResultCache } from "./cache";
+import { limitDiagnostics } from "./limit";
+import { writeReport, ReportFormat, ReportSummary } from "./report";
+import { writeExport, ExportFormat, ExportSummary } from "./export";
+import { DeprecationTree, getDeprecationTree } from "./aggregate";
+import * as path from "path";
+import * as fs from 'fs';
+import { CheckError } from "./errors";
 import { CheckerSettings } from "./settings";
 import { StringResources as SR } from "./strings";
 
@@ -30,13 +51,82 @@ const connection = createConnection(ProposedFeatures.all, new IPCMessageReader(p
 // Create a simple text document manager. The text document manager
 // supports full document sync only
 const documents: TextDocuments = new TextDocuments();
-const validating = new Map();
+const validating: Map<string, number> = new Map();
+let validationCount = 0;
+let batchCount = 0;
+// The documents of each running batch, keyed by the runner key of the batch.
+const batchedDocuments: Map<string, string[]> = new Map();
 
 let hasConfigurationCapability = false;
 let hasWorkspaceFolderCapability = false;
+let rootUri: string | null = null;
+
+// Cached drupal-check results, kept in the storage directory of the extension.
+let resultCache: ResultCache | null = null;
+
+interface ScanWorkspaceParams {
+    // The folder to scan. All workspace folders are scanned when omitted.
+    uri?: string;
+}
+
+interface WorkspaceFolderState {
+    // The settings of the folder, fetched once until the configuration changes.
+    settings: Thenable<CheckerSettings> | null;
+    // The executables resolved inside the folder, keyed by directory.
+    executables: Map<string, ResolvedExecutable>;
+}
+
+// The workspace folders, keyed by uri. Each one is checked as a project of its own.
+const workspaceFolders: Map<string, WorkspaceFolderState> = new Map();
+
+interface InitializationOptions {
+    // A directory the server may store data in, if the client provides one.
+    storagePath?: string;
+}
+
+interface ScanWorkspaceResult {
+    files: number;
+    problems: number;
+    // Baselined findings that no longer occur.
+    obsolete: number;
+}
+
+interface GenerateReportParams extends ScanWorkspaceParams {
+    // The absolute path to write the report to.
+    path: string;
+    format: ReportFormat;
+}
+
+interface GetDeprecationsParams {
+    // Only list deprecations blocking an upgrade to this Drupal version.
+    targetVersion?: string;
+}
+
+interface CheckFilesParams {
+    // The files to check, open or not.
+    uris: string[];
+}
+
+interface ExportFindingsParams extends ScanWorkspaceParams {
+    // The document to export. The folder, or the workspace, is exported when omitted.
+    document?: string;
+    // The absolute path to write the findings to.
+    path: string;
+    format: ExportFormat;
+}
 
 connection.onInitialize((params: InitializeParams) => {
     const capabilities = params.capabilities;
+    rootUri = params.rootUri;
+    if (params.workspaceFolders) {
+        params.workspaceFolders.forEach(folder => addWorkspaceFolder(folder));
+    } else if (rootUri !== null) {
+        addWorkspaceFolder({ uri: rootUri, name: path.basename(Files.uriToFilePath(rootUri)) });
+    }
+    const options: InitializationOptions = params.initializationOptions || {};
+    if (options.storagePath) {
+        resultCache = new ResultCache(options.storagePath);
+    }
 
     // Does the client support the `workspace/configuration` request?
     // If not, we will fall back using global settings
@@ -50,6 +140,13 @@ connection.onInitialize((params: InitializeParams) => {
     return {
         capabilities: {
             textDocumentSync: documents.syncKind,
+            codeActionProvider: true,
+            hoverProvider: true,
+            workspace: {
+                workspaceFolders: {
+                    supported: hasWorkspaceFolderCapability
+                }
+            },
             // // Tell the client that the server supports code completion
             // completionProvider: {
             // 	resolveProvider: true
@@ -64,8 +161,15 @@ connection.onInitialized(() => {
         connection.client.register(DidChangeConfigurationNotification.type, undefined);
     }
     if (hasWorkspaceFolderCapability) {
-        connection.workspace.onDidChangeWorkspaceFolders(() => {
-            connection.console.log('Workspace folder change event received.');
+        connection.workspace.onDidChangeWorkspaceFolders(event => {
+            event.removed.forEach(folder => removeWorkspaceFolder(folder));
+            event.added.forEach(folder => addWorkspaceFolder(folder));
+            // Documents of added folders, and those left to an outer folder,
+            // now use the settings of another folder.
+            const changed = event.added.concat(event.removed).map(folder => folder.uri);
+            validateMany(documents.all().filter(document => {
+                return changed.some(folderUri => isInsideFolder(document.uri, folderUri)) && getWorkspaceFolderUri(document.uri) !== null;
+            }));
         });
     }
 });
@@ -75,19 +179,114 @@ connection.onInitialized(() => {
 // but could happen with other clients.
 const defaultSettings: CheckerSettings = {
     enable: true,
-    executablePath: '/usr/local/bin/drupal-check',
+    deprecations: true,
+    analysis: false,
+    style: false,
+    executablePath: null,
+    commandTemplate: null,
+    pathMappings: {},
+    container: 'auto',
     maxNumberOfProblems: 1000,
+    severity: {
+        deprecation: 'Warning',
+        removed: 'Error',
+        analysis: 'Error',
+        style: 'Information',
+        rules: []
+    },
+    targetCoreVersion: null,
+    blockingFindings: 'highlight',
+    nonBlockingFindings: 'downgrade',
+    unknownRemovalVersion: 'blocking',
+    replacements: [],
+    baseline: 'drupal-check-baseline.neon',
+    showBaselined: false,
+    cache: true,
+    maxConcurrentProcesses: 2,
+    batchSize: 10,
+    timeout: 300,
+    scanTimeout: 0,
+    run: 'onSave',
+    runDelay: 1000,
+    drupalRoot: null,
     workspaceRoot: null
 };
 let globalSettings: CheckerSettings = defaultSettings;
 
+// Pending as-you-type validations, keyed by document uri.
+const pendingValidations: Map<string, NodeJS.Timer> = new Map();
+
+// The executables already reported in the output, keyed by path.
+const reportedExecutables: Set<string> = new Set();
+
+// The workspace folders already warned about a missing Drupal root.
+const reportedMissingDrupalRoots: Set<string> = new Set();
+
+// When each kind of error was last shown to the user.
+const reportedErrors: Map<string, number> = new Map();
+
+// The same kind of error is shown at most once in this interval.
+const errorReportInterval = 1000 * 60 * 5; // ms * s * min: 5 minutes
+
+// Runs drupal-check processes in the background, one at a time per document.
+const runner = new ProcessRunner(defaultSettings.maxConcurrentProcesses);
+runner.onDidFinish(logRun);
+
+// Checks the core versions allowed by info and composer.json files.
+const requirementsCheck = new RequirementsCheck();
+
+// The diagnostics last published for each document. This client version
+// does not send the data of a diagnostic back with code action requests.
+const publishedDiagnostics: Map<string, DrupalCheckDiagnostic[]> = new Map();
+
 // Cache the settings of all open documents
 const documentSettings: Map<string, Thenable<CheckerSettings>> = new Map();
 
+/**
+ * Start tracking a workspace folder.
+ *
+ * @param folder The workspace folder.
+ */
+function addWorkspaceFolder(folder: WorkspaceFolder): void {
+    workspaceFolders.set(folder.uri, { settings: null, executables: new Map() });
+}
+
+/**
+ * Stop tracking a workspace folder: stop its checks and clear its diagnostics.
+ *
+ * @param folder The workspace folder.
+ */
+function removeWorkspaceFolder(folder: WorkspaceFolder): void {
+    workspaceFolders.delete(folder.uri);
+    reportedMissingDrupalRoots.delete(folder.uri);
+    runner.cancelWhere(key => {
+        const uris = batchedDocuments.get(key.split('#')[0]) || [key.split('#')[0]];
+        return uris.some(uri => isInsideFolder(uri, folder.uri));
+    });
+    // Validations still running must not publish diagnostics for the folder.
+    Array.from(validating.keys()).filter(uri => isInsideFolder(uri, folder.uri)).forEach(uri => validating.delete(uri));
+    documents.all().filter(document => isInsideFolder(document.uri, folder.uri)).forEach(document => {
+        cancelPendingValidation(document);
+        documentSettings.delete(document.uri);
+    });
+    Array.from(publishedDiagnostics.keys()).filter(uri => isInsideFolder(uri, folder.uri)).forEach(uri => {
+        publishDiagnostics(uri, []);
+    });
+    Array.from(scanResults.keys()).filter(uri => isInsideFolder(uri, folder.uri)).forEach(scannedUri => {
+        scanResults.get(scannedUri).forEach((diagnostics, uri) => publishDiagnostics(uri, []));
+        scanResults.delete(scannedUri);
+        connection.sendNotification('drupalCheck/didChangeScanResults');
+    });
+}
+
 connection.onDidChangeConfiguration(change => {
     if (hasConfigurationCapability) {
         // Reset all cached document settings
         documentSettings.clear();
+        workspaceFolders.forEach(folder => {
+            folder.settings = null;
+            folder.executables.clear();
+        });
     } else {
         globalSettings = <CheckerSettings>(
 			(change.settings.drupalCheck || defaultSettings)
@@ -100,13 +299,32 @@ connection.onDidChangeConfiguration(change => {
 
 connection.onDidChangeWatchedFiles(() => {
     // Monitored files have change in VSCode
+    workspaceFolders.forEach(folder => folder.executables.clear());
     validateMany(documents.all());
 });
 
+/**
+ * Get the settings of a document or folder. Resources inside a workspace
+ * folder share the settings of that folder.
+ *
+ * @param resource The uri of the document or folder.
+ * @return CheckerSettings The settings.
+ */
 function getDocumentSettings(resource: string): Thenable<CheckerSettings> {
     if (!hasConfigurationCapability) {
         return Promise.resolve(globalSettings);
     }
+    const folderUri = getWorkspaceFolderUri(resource);
+    if (folderUri !== null) {
+        const folder = workspaceFolders.get(folderUri);
+        if (folder.settings === null) {
+            folder.settings = connection.workspace.getConfiguration({
+                scopeUri: folderUri,
+                section: 'drupalCheck'
+            });
+        }
+        return folder.settings;
+    }
     let result: Thenable<CheckerSettings>;
     result = documentSettings.get(resource);
     if (!result) {
@@ -129,15 +347,548 @@ documents.onDidOpen( e => {
     validateSingle(e.document);
 });
 
+/**
+ * Handles changes of text documents when checking as you type.
+ *
+ * @param event The text document change event.
+ * @return void
+ */
+documents.onDidChangeContent(async e => {
+    const settings = await getDocumentSettings(e.document.uri);
+    if (settings.run !== 'onType') {
+        return;
+    }
+    cancelPendingValidation(e.document);
+    pendingValidations.set(e.document.uri, setTimeout(() => {
+        pendingValidations.delete(e.document.uri);
+        validateSingle(e.document);
+    }, settings.runDelay));
+});
+
 // Only keep settings for open documents
 documents.onDidClose(e => {
+    cancelPendingValidation(e.document);
+    runner.cancel(e.document.uri);
     documentSettings.delete(e.document.uri);
 });
 
 documents.onDidSave(e => {
+    cancelPendingValidation(e.document);
     validateSingle(e.document);
 });
 
+/**
+ * Cancel an as-you-type validation that has not started yet.
+ *
+ * @param document The text document.
+ * @return void
+ */
+function cancelPendingValidation(document: TextDocument): void {
+    const timer = pendingValidations.get(document.uri);
+    if (timer) {
+        clearTimeout(timer);
+        pendingValidations.delete(document.uri);
+    }
+}
+
+/**
+ * Handles requests for quick fixes of drupal-check diagnostics.
+ *
+ * @param params The document, range and diagnostics.
+ * @return CodeAction[] The code actions.
+ */
+connection.onCodeAction(async params => {
+    const document = documents.get(params.textDocument.uri);
+    if (!document) {
+        return [];
+    }
+    const settings = await getDocumentSettings(document.uri);
+    const published = publishedDiagnostics.get(document.uri) || [];
+    const diagnostics = params.context.diagnostics.map(diagnostic => {
+        return published.find(candidate => isSameDiagnostic(candidate, diagnostic)) || diagnostic;
+    });
+    return getCodeActions(document, diagnostics, published, settings);
+});
+
+/**
+ * Handles hover requests, describing the deprecations under the cursor.
+ *
+ * @param params The document and position.
+ * @return Hover The deprecation details, or null when there are none.
+ */
+connection.onHover(params => {
+    return getHover(publishedDiagnostics.get(params.textDocument.uri) || [], params.position);
+});
+
+/**
+ * Handles requests to check whole folders.
+ *
+ * @param params The folder to scan.
+ * @param token Cancels the running scan.
+ * @return ScanWorkspaceResult The number of files with problems and the number of problems,
+ *     or null when the scan was cancelled.
+ */
+connection.onRequest('drupalCheck/scanWorkspace', (params: ScanWorkspaceParams, token: CancellationToken): Promise<ScanWorkspaceResult | null> => {
+    return scanFolders(params, false, token);
+});
+
+/**
+ * Handles requests to write the current findings of every workspace folder
+ * to its baseline file.
+ *
+ * @param params Unused; baselines always cover whole workspace folders.
+ * @param token Cancels the running scan.
+ * @return ScanWorkspaceResult The findings written, or null when the scan was cancelled.
+ */
+connection.onRequest('drupalCheck/generateBaseline', (params: ScanWorkspaceParams, token: CancellationToken): Promise<ScanWorkspaceResult | null> => {
+    return scanFolders({}, true, token);
+});
+
+/**
+ * Handles requests to write an upgrade readiness report. Folders that were
+ * scanned before are reported from their current results; the others are
+ * scanned first.
+ *
+ * @param params The folder to report on, the report path and its format.
+ * @param token Cancels the running scan.
+ * @return ReportSummary The totals of the report, or null when the scan was cancelled.
+ */
+connection.onRequest('drupalCheck/generateReport', async (params: GenerateReportParams, token: CancellationToken): Promise<ReportSummary | null> => {
+    const results = await getScanResults(params, token);
+    if (results === null) {
+        return null;
+    }
+    const summary = writeReport(results, params.path, params.format);
+    connection.console.info(strings.format(SR.ReportWritten, params.path));
+    return summary;
+});
+
+/**
+ * Handles requests to export findings for CI tools. A document is checked
+ * again, which usually hits the cache; folders are exported like reports.
+ *
+ * @param params The document or folder to export, the path and the format.
+ * @param token Cancels the running scan.
+ * @return ExportSummary The number of findings and files exported, or null when the scan was cancelled.
+ */
+connection.onRequest('drupalCheck/exportFindings', async (params: ExportFindingsParams, token: CancellationToken): Promise<ExportSummary | null> => {
+    let results: Map<string, Diagnostic[]> | null;
+    if (params.document) {
+        const document = documents.get(params.document);
+        const diagnostics = document ? await checkDocument(document) : [];
+        results = diagnostics !== null ? new Map([[params.document, diagnostics]]) : null;
+    } else {
+        results = await getScanResults(params, token);
+    }
+    if (results === null) {
+        return null;
+    }
+    const baseUri = params.uri || getWorkspaceFolderUri(params.document || '') || Array.from(workspaceFolders.keys())[0];
+    const basePath = baseUri ? Files.uriToFilePath(baseUri) : path.dirname(params.path);
+    const summary = writeExport(results, params.path, params.format, basePath);
+    connection.console.info(strings.format(SR.ExportWritten, params.path));
+    return summary;
+});
+
+/**
+ * Handles requests for the findings of the scanned folders, grouped by
+ * extension and deprecated API for the deprecations view.
+ *
+ * @param params The target version to filter by.
+ * @return DeprecationTree The grouped findings.
+ */
+connection.onRequest('drupalCheck/getDeprecations', async (params: GetDeprecationsParams): Promise<DeprecationTree> => {
+    const results: Map<string, Diagnostic[]> = new Map();
+    // Deprecations of unknown removal version block the upgrade as configured for their folder.
+    const unknownBlocking: Set<string> = new Set();
+    for (const [folderUri, scanned] of Array.from(scanResults.entries())) {
+        const settings = await getDocumentSettings(folderUri);
+        scanned.forEach((diagnostics, uri) => {
+            results.set(uri, diagnostics);
+            if (settings.unknownRemovalVersion !== 'nonBlocking') {
+                unknownBlocking.add(uri);
+            }
+        });
+    }
+    return getDeprecationTree(results, params.targetVersion || null, uri => unknownBlocking.has(uri));
+});
+
+/**
+ * Handles requests to check files again, reading those that are not open
+ * from disk.
+ *
+ * @param params The files to check.
+ * @return void
+ */
+connection.onRequest('drupalCheck/checkFiles', async (params: CheckFilesParams): Promise<void> => {
+    const checked: TextDocument[] = [];
+    params.uris.forEach(uri => {
+        const document = documents.get(uri);
+        if (document) {
+            checked.push(document);
+        } else if (fs.existsSync(Files.uriToFilePath(uri))) {
+            checked.push(TextDocument.create(uri, 'php', 0, fs.readFileSync(Files.uriToFilePath(uri), 'utf8')));
+        }
+    });
+    await validateMany(checked);
+});
+
+/**
+ * Handles requests to forget the cached results, checking the open documents again.
+ *
+ * @return void
+ */
+connection.onRequest('drupalCheck/clearCache', async (): Promise<void> => {
+    if (resultCache !== null) {
+        resultCache.clear();
+    }
+    await validateMany(documents.all());
+});
+
+/**
+ * Scan the folders of a request one after the other.
+ *
+ * @param params The scan request parameters.
+ * @param generateBaseline Whether to write the findings to the baseline file.
+ * @param token Cancels the running scan.
+ * @return ScanWorkspaceResult The combined results, or null when the scan was cancelled.
+ */
+async function scanFolders(params: ScanWorkspaceParams, generateBaseline: boolean, token: CancellationToken): Promise<ScanWorkspaceResult | null> {
+    const result: ScanWorkspaceResult = { files: 0, problems: 0, obsolete: 0 };
+    for (const folderUri of getScanFolders(params)) {
+        if (token.isCancellationRequested) {
+            return null;
+        }
+        const folderResult = await scanFolder(folderUri, generateBaseline, token);
+        if (folderResult === null) {
+            return null;
+        }
+        result.files += folderResult.files;
+        result.problems += folderResult.problems;
+        result.obsolete += folderResult.obsolete;
+    }
+    return result;
+}
+
+// The diagnostics found by the last scan of each folder, keyed by document
+// uri, and kept up to date as documents are validated.
+const scanResults: Map<string, Map<string, Diagnostic[]>> = new Map();
+
+/**
+ * Get the diagnostics of the folders of a scan request, scanning the folders
+ * no earlier scan covers.
+ *
+ * @param params The scan request parameters.
+ * @param token Cancels the running scan.
+ * @return Map<string, Diagnostic[]> The diagnostics keyed by document uri, or null when the scan was cancelled.
+ */
+async function getScanResults(params: ScanWorkspaceParams, token: CancellationToken): Promise<Map<string, Diagnostic[]> | null> {
+    const folders = getScanFolders(params);
+    for (const folderUri of folders) {
+        if (token.isCancellationRequested) {
+            return null;
+        }
+        const scanned = Array.from(scanResults.keys()).some(scannedUri => isInsideFolder(folderUri, scannedUri));
+        if (!scanned && await scanFolder(folderUri, false, token) === null) {
+            return null;
+        }
+    }
+    const results: Map<string, Diagnostic[]> = new Map();
+    scanResults.forEach(scanned => {
+        scanned.forEach((diagnostics, uri) => {
+            if (folders.some(folderUri => isInsideFolder(uri, folderUri))) {
+                results.set(uri, diagnostics);
+            }
+        });
+    });
+    return results;
+}
+
+/**
+ * Get the folders to scan for a scan request.
+ *
+ * @param params The scan request parameters.
+ * @return string[] The folder uris.
+ */
+function getScanFolders(params: ScanWorkspaceParams): string[] {
+    if (params.uri) {
+        return [params.uri];
+    }
+    return Array.from(workspaceFolders.keys());
+}
+
+/**
+ * Check every PHP file in a folder and publish the diagnostics.
+ *
+ * @param folderUri The folder to scan.
+ * @param generateBaseline Whether to write the findings to the baseline file first.
+ * @param token Cancels the running scan.
+ * @return ScanWorkspaceResult The scan results, or null when the scan was cancelled.
+ */
+async function scanFolder(folderUri: string, generateBaseline: boolean, token: CancellationToken): Promise<ScanWorkspaceResult | null> {
+    const settings = await getDocumentSettings(folderUri);
+    if (!settings.enable) {
+        return { files: 0, problems: 0, obsolete: 0 };
+    }
+    const folderPath = Files.uriToFilePath(folderUri);
+    runner.setMaxConcurrency(settings.maxConcurrentProcesses);
+    const cancellation = token.onCancellationRequested(() => runner.cancel(folderUri));
+    let results: Map<string, Diagnostic[]> | null;
+    let projectSettings: CheckerSettings;
+    try {
+        projectSettings = await resolveProjectSettings(settings, folderUri, folderPath);
+        const drupalcheck = await createChecker(projectSettings, folderUri, folderPath);
+        const checkSettings = generateBaseline ? Object.assign({}, projectSettings, { baseline: null }) : projectSettings;
+        results = await drupalcheck.checkFolder(folderUri, checkSettings);
+    } catch (error) {
+        throw new Error(getExceptionMessage(error, null));
+    } finally {
+        cancellation.dispose();
+    }
+    if (results === null) {
+        return null;
+    }
+    if (generateBaseline && projectSettings.baseline) {
+        writeBaseline(projectSettings.baseline, results);
+    }
+    requirementsCheck.checkFolder(folderPath, projectSettings).forEach((diagnostics, uri) => results.set(uri, diagnostics));
+
+    // Clear documents that no longer have problems, including those of
+    // nested folders that were scanned separately.
+    const result: ScanWorkspaceResult = { files: 0, problems: 0, obsolete: 0 };
+    scanResults.forEach((scanned, scannedUri) => {
+        if (!isPathInside(Files.uriToFilePath(scannedUri), folderPath)) {
+            return;
+        }
+        scanned.forEach((diagnostics, uri) => {
+            if (!results.has(uri)) {
+                publishDiagnostics(uri, []);
+            }
+        });
+        scanResults.delete(scannedUri);
+    });
+    const baseline = generateBaseline && projectSettings.baseline ? Baseline.load(projectSettings.baseline) : null;
+    const folderResults: Map<string, Diagnostic[]> = new Map();
+    results.forEach((diagnostics, uri) => {
+        if (baseline !== null) {
+            diagnostics = baseline.filter(Files.uriToFilePath(uri), diagnostics, projectSettings.showBaselined).diagnostics;
+        }
+        folderResults.set(uri, diagnostics);
+        publishDiagnostics(uri, limitDiagnostics(diagnostics, projectSettings.maxNumberOfProblems));
+        if (diagnostics.length > 0) {
+            result.files++;
+            result.problems += diagnostics.length;
+        }
+    });
+    // Scans of enclosing folders take over the new results as well.
+    scanResults.forEach((scanned, scannedUri) => {
+        if (!isInsideFolder(folderUri, scannedUri)) {
+            return;
+        }
+        Array.from(scanned.keys()).filter(uri => isInsideFolder(uri, folderUri)).forEach(uri => {
+            if (!results.has(uri)) {
+                publishDiagnostics(uri, []);
+            }
+            scanned.delete(uri);
+        });
+        folderResults.forEach((diagnostics, uri) => scanned.set(uri, diagnostics));
+    });
+    scanResults.set(folderUri, folderResults);
+    connection.sendNotification('drupalCheck/didChangeScanResults');
+    if (!generateBaseline && projectSettings.baseline) {
+        const currentBaseline = Baseline.load(projectSettings.baseline);
+        result.obsolete = currentBaseline !== null ? currentBaseline.countObsolete(folderPath) : 0;
+        if (result.obsolete > 0) {
+            connection.console.info(strings.format(SR.ObsoleteBaselineEntries, result.obsolete, folderPath));
+        }
+    }
+    return result;
+}
+
+/**
+ * Write the findings of a scan to a baseline file.
+ *
+ * @param baselinePath The absolute path of the baseline file.
+ * @param results The diagnostics of the scan, keyed by document uri.
+ */
+function writeBaseline(baselinePath: string, results: Map<string, Diagnostic[]>): void {
+    const messages: Map<string, string[]> = new Map();
+    results.forEach((diagnostics, uri) => {
+        messages.set(Files.uriToFilePath(uri), diagnostics.map(diagnostic => diagnostic.message));
+    });
+    Baseline.write(baselinePath, messages);
+    connection.console.info(strings.format(SR.BaselineWritten, baselinePath));
+}
+
+/**
+ * Fill in the Drupal root and the project root for a document or folder.
+ *
+ * The drupalCheck.drupalRoot setting wins over detection; a relative setting
+ * is resolved against the workspace folder.
+ *
+ * @param settings The settings of the document or folder.
+ * @param resource The uri of the document or folder.
+ * @param directory The directory to start detection from.
+ * @return CheckerSettings A copy of the settings with the roots filled in.
+ */
+async function resolveProjectSettings(settings: CheckerSettings, resource: string, directory: string): Promise<CheckerSettings> {
+    const folderUri = getWorkspaceFolderUri(resource);
+    const basePath = folderUri !== null ? Files.uriToFilePath(folderUri) : directory;
+    const baseline = settings.baseline ? path.resolve(basePath, settings.baseline) : null;
+    let roots: { drupalRoot: string | null; workspaceRoot: string | null };
+    if (settings.drupalRoot) {
+        const drupalRoot = path.resolve(basePath, settings.drupalRoot);
+        const project = findDrupalProject(drupalRoot);
+        roots = { drupalRoot, workspaceRoot: project !== null ? project.projectRoot : drupalRoot };
+    } else {
+        const project = findDrupalProject(directory);
+        if (project === null) {
+            reportMissingDrupalRoot(folderUri !== null ? folderUri : directory);
+            const workspaceRoot = folderUri !== null ? Files.uriToFilePath(folderUri) : settings.workspaceRoot;
+            roots = { drupalRoot: settings.drupalRoot, workspaceRoot };
+        } else {
+            roots = { drupalRoot: project.drupalRoot, workspaceRoot: project.projectRoot };
+        }
+    }
+    const container = resolveContainer(settings, basePath, roots.workspaceRoot !== null ? roots.workspaceRoot : directory);
+    return Object.assign({}, settings, roots, container, { baseline });
+}
+
+/**
+ * Get the command template and path mappings to run drupal-check with. A
+ * configured template wins; otherwise the container of the project is
+ * detected, unless an executable is configured.
+ *
+ * @param settings The settings of the document or folder.
+ * @param basePath The directory relative host paths are resolved against.
+ * @param projectRoot The directory to start detection from.
+ * @return The command template, or null to run the executable on the host, and the path mappings.
+ */
+function resolveContainer(settings: CheckerSettings, basePath: string, projectRoot: string): Pick<CheckerSettings, 'commandTemplate' | 'pathMappings'> {
+    const pathMappings: { [hostPath: string]: string } = {};
+    Object.keys(settings.pathMappings || {}).forEach(hostPath => {
+        pathMappings[path.resolve(basePath, hostPath)] = settings.pathMappings[hostPath];
+    });
+    if (settings.commandTemplate) {
+        return { commandTemplate: settings.commandTemplate, pathMappings };
+    }
+    if (!settings.container || settings.container === 'none' || (settings.container === 'auto' && settings.executablePath)) {
+        return { commandTemplate: null, pathMappings };
+    }
+    const container = detectContainer(projectRoot, settings.container !== 'auto' ? settings.container : null);
+    if (container === null) {
+        return { commandTemplate: null, pathMappings };
+    }
+    return { commandTemplate: container.commandTemplate, pathMappings: Object.assign({}, container.pathMappings, pathMappings) };
+}
+
+/**
+ * Get the workspace folder containing a resource.
+ *
+ * @param resource The uri of a document or folder.
+ * @return string The uri of the innermost workspace folder, or null if there is none.
+ */
+function getWorkspaceFolderUri(resource: string): string | null {
+    return Array.from(workspaceFolders.keys())
+        .filter(folderUri => isInsideFolder(resource, folderUri))
+        .sort((a, b) => b.length - a.length)[0] || null;
+}
+
+/**
+ * Whether a resource lies inside, or is, a folder.
+ *
+ * @param uri The uri of a document or folder.
+ * @param folderUri The uri of the folder.
+ * @return boolean True when the resource is inside the folder.
+ */
+function isInsideFolder(uri: string, folderUri: string): boolean {
+    const filePath = Files.uriToFilePath(uri);
+    return filePath !== undefined && isPathInside(filePath, Files.uriToFilePath(folderUri));
+}
+
+/**
+ * Tell the user once per workspace folder that the Drupal root could not be
+ * detected, offering to configure it.
+ *
+ * @param key The workspace folder uri, or the directory when outside a folder.
+ */
+async function reportMissingDrupalRoot(key: string): Promise<void> {
+    if (reportedMissingDrupalRoots.has(key)) {
+        return;
+    }
+    reportedMissingDrupalRoots.add(key);
+    const openSettings: MessageActionItem = { title: SR.OpenSettings };
+    const action = await connection.window.showWarningMessage(SR.DrupalRootNotFoundWarning, openSettings);
+    if (action && action.title === openSettings.title) {
+        connection.sendNotification('drupalCheck/openSettings', { setting: 'drupalCheck.drupalRoot' });
+    }
+}
+
+/**
+ * Log the command line, duration and outcome of a drupal-check run, followed
+ * by anything it wrote to stderr.
+ *
+ * @param run The finished run.
+ */
+function logRun(run: FinishedRun): void {
+    const commandLine = [run.command].concat(run.args).map(quoteArgument).join(' ');
+    const { result } = run;
+    if (result.cancelled) {
+        connection.console.log(strings.format(SR.RunCancelled, commandLine, result.duration));
+    } else if (result.timedOut) {
+        connection.console.warn(strings.format(SR.RunTimedOut, commandLine, result.duration));
+    } else {
+        const exitCode = result.exitCode !== null ? result.exitCode : result.signal;
+        connection.console.info(strings.format(SR.RunFinished, commandLine, result.duration, exitCode));
+    }
+    if (result.stderr.trim() !== '') {
+        connection.console.error(result.stderr.replace(/\s+$/, ''));
+    }
+}
+
+/**
+ * Quote a command line argument for display when it contains special characters.
+ *
+ * @param argument The argument.
+ * @return string The argument, quoted when needed.
+ */
+function quoteArgument(argument: string): string {
+    return /^[\w@%+=:,./-]+$/.test(argument) ? argument : `'${argument.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Create a checker using the drupal-check executable that applies to a directory.
+ * The executable is resolved once per directory of each workspace folder.
+ *
+ * @param settings The settings of the document or folder.
+ * @param resource The uri of the document or folder.
+ * @param directory The directory to resolve the executable from.
+ * @return DrupalCheck The checker.
+ */
+async function createChecker(settings: CheckerSettings, resource: string, directory: string): Promise<DrupalCheck> {
+    if (settings.commandTemplate) {
+        if (!reportedExecutables.has(settings.commandTemplate)) {
+            reportedExecutables.add(settings.commandTemplate);
+            connection.console.info(strings.format(SR.UsingExecutable, 'command template', settings.commandTemplate));
+        }
+        return DrupalCheck.create(settings.commandTemplate, runner, resultCache);
+    }
+    const folderUri = getWorkspaceFolderUri(resource);
+    const folder = folderUri !== null ? workspaceFolders.get(folderUri) : undefined;
+    let executable = folder ? folder.executables.get(directory) : undefined;
+    if (executable === undefined) {
+        executable = await new ExecutablePathResolver().resolve(settings.executablePath, directory);
+        if (folder) {
+            folder.executables.set(directory, executable);
+        }
+    }
+    if (!reportedExecutables.has(executable.path)) {
+        reportedExecutables.add(executable.path);
+        connection.console.info(strings.format(SR.UsingExecutable, executable.source, executable.path));
+    }
+    return DrupalCheck.create(executable.path, runner, resultCache);
+}
+
 /**
  * Validate a single text document.
  *
@@ -147,62 +898,244 @@ documents.onDidSave(e => {
 async function validateSingle(document: TextDocument): Promise<void> {
     const settings = await getDocumentSettings(document.uri);
     if (settings.enable) {
-        let diagnostics: Diagnostic[] = [];
-        sendStartValidationNotification(document);
+        let diagnostics: Diagnostic[] | null = [];
+        const validation = sendStartValidationNotification(document);
+        supersedeBatches([document.uri]);
         try {
-            const drupalcheck = DrupalCheck.create(settings.executablePath);
-            diagnostics = await drupalcheck.check(document, settings);
+            diagnostics = await checkDocument(document);
         } catch(error) {
-            throw new Error(getExceptionMessage(error, document));
+            reportError(error, document);
         } finally {
-            sendEndValidationNotification(document);
-            connection.sendDiagnostics({ uri: document.uri, diagnostics });
+            const current = sendEndValidationNotification(document, validation);
+            // A null result means a newer validation took over this document, or it was edited during the check.
+            if (current && diagnostics !== null) {
+                updateScanResults(document.uri, diagnostics);
+                publishDiagnostics(document.uri, limitDiagnostics(diagnostics, settings.maxNumberOfProblems));
+            }
         }
     } else {
         const diagnostics: Diagnostic[] = [];
-        connection.sendDiagnostics({ uri: document.uri, diagnostics });
+        publishDiagnostics(document.uri, diagnostics);
         documentSettings.delete(document.uri);
     }
 }
 
+/**
+ * Check a document, applying the baseline but not the problem limit.
+ *
+ * @param document The document to check.
+ * @return Diagnostic[] The diagnostics, or null when a newer check took over the document or it was edited meanwhile.
+ */
+async function checkDocument(document: TextDocument): Promise<Diagnostic[] | null> {
+    const settings = await getDocumentSettings(document.uri);
+    if (!settings.enable) {
+        return [];
+    }
+    if (RequirementsCheck.isRequirementsFile(Files.uriToFilePath(document.uri))) {
+        return requirementsCheck.check(document, settings);
+    }
+    runner.setMaxConcurrency(settings.maxConcurrentProcesses);
+    const directory = path.dirname(Files.uriToFilePath(document.uri));
+    const projectSettings = await resolveProjectSettings(settings, document.uri, directory);
+    const drupalcheck = await createChecker(projectSettings, document.uri, directory);
+    return drupalcheck.check(document, projectSettings);
+}
+
+/**
+ * Log an error of a validation and tell the user about it, offering the
+ * settings that may fix it and the output. Each kind of error is shown at
+ * most once in a while, as it usually affects every document.
+ *
+ * @param error The error.
+ * @param document The document being validated.
+ */
+async function reportError(error: Error, document: TextDocument): Promise<void> {
+    const message = getExceptionMessage(error, document);
+    connection.console.error(message);
+    const key = error instanceof CheckError ? error.kind : message;
+    const now = Date.now();
+    if (reportedErrors.has(key) && now - reportedErrors.get(key) < errorReportInterval) {
+        return;
+    }
+    reportedErrors.set(key, now);
+    const setting = error instanceof CheckError ? error.setting : null;
+    const openSettings: MessageActionItem = { title: SR.OpenSettings };
+    const showOutput: MessageActionItem = { title: SR.ShowOutput };
+    const actions = setting !== null ? [openSettings, showOutput] : [showOutput];
+    const action = await connection.window.showErrorMessage(message, ...actions);
+    if (action && action.title === openSettings.title) {
+        connection.sendNotification('drupalCheck/openSettings', { setting });
+    } else if (action && action.title === showOutput.title) {
+        connection.sendNotification('drupalCheck/showOutput');
+    }
+}
+
 /**
  * Validate a list of text documents.
  *
+ * Documents sharing settings and executable are checked together, in
+ * batches of up to drupalCheck.batchSize documents per drupal-check run. The
+ * process runner limits how many runs happen at the same time.
+ *
  * @param documents The list of text documents to validate.
  * @return void
  */
 async function validateMany(documents: TextDocument[]): Promise<void> {
-    for (let i = 0, len = documents.length; i < len; i++) {
-        await validateSingle(documents[i]);
+    const validations: Promise<void>[] = [];
+    const batches: Map<string, { settings: CheckerSettings; drupalcheck: DrupalCheck; documents: TextDocument[] }> = new Map();
+    for (const document of documents) {
+        const settings = await getDocumentSettings(document.uri);
+        if (!settings.enable || !(settings.batchSize > 1) || RequirementsCheck.isRequirementsFile(Files.uriToFilePath(document.uri))) {
+            validations.push(validateSingle(document));
+            continue;
+        }
+        try {
+            const directory = path.dirname(Files.uriToFilePath(document.uri));
+            const projectSettings = await resolveProjectSettings(settings, document.uri, directory);
+            const drupalcheck = await createChecker(projectSettings, document.uri, directory);
+            const key = JSON.stringify([drupalcheck.getExecutablePath(), projectSettings]);
+            const batch = batches.get(key) || { settings: projectSettings, drupalcheck, documents: [] };
+            batch.documents.push(document);
+            batches.set(key, batch);
+        } catch (error) {
+            reportError(error, document);
+        }
+    }
+    batches.forEach(({ settings, drupalcheck, documents }) => {
+        for (let i = 0; i < documents.length; i += settings.batchSize) {
+            validations.push(validateBatch(documents.slice(i, i + settings.batchSize), settings, drupalcheck));
+        }
+    });
+    await Promise.all(validations.map(validation => validation.catch(error => {
+        connection.console.error(error.message);
+    })));
+}
+
+/**
+ * Validate several text documents with a single drupal-check run per mode.
+ *
+ * @param documents The text documents to validate.
+ * @param settings The settings shared by the documents, with the project roots filled in.
+ * @param drupalcheck The checker shared by the documents.
+ * @return void
+ */
+async function validateBatch(documents: TextDocument[], settings: CheckerSettings, drupalcheck: DrupalCheck): Promise<void> {
+    const validations = documents.map(document => sendStartValidationNotification(document));
+    const key = `batch:${++batchCount}`;
+    const uris = documents.map(document => document.uri);
+    supersedeBatches(uris);
+    batchedDocuments.set(key, uris);
+    let results: Map<string, Diagnostic[]> | null = null;
+    try {
+        runner.setMaxConcurrency(settings.maxConcurrentProcesses);
+        results = await drupalcheck.checkMany(documents, settings, key);
+    } catch (error) {
+        documents.forEach(document => reportError(error, document));
+    } finally {
+        batchedDocuments.delete(key);
+        documents.forEach((document, i) => {
+            const current = sendEndValidationNotification(document, validations[i]);
+            // Documents validated again or edited since the batch started keep the newer results.
+            if (current && results !== null && results.has(document.uri)) {
+                updateScanResults(document.uri, results.get(document.uri) || []);
+                publishDiagnostics(document.uri, limitDiagnostics(results.get(document.uri) || [], settings.maxNumberOfProblems));
+            }
+        });
+    }
+}
+
+/**
+ * Cancel the running batches checking any of the documents, as a newer
+ * validation of them takes over. The other documents of those batches are
+ * validated again, as their results would be lost.
+ *
+ * @param uris The uris of the documents validated again.
+ */
+function supersedeBatches(uris: string[]): void {
+    batchedDocuments.forEach((members, key) => {
+        if (!members.some(uri => uris.indexOf(uri) !== -1)) {
+            return;
+        }
+        batchedDocuments.delete(key);
+        runner.cancel(key);
+        validateMany(members
+            .filter(other => uris.indexOf(other) === -1 && validating.has(other))
+            .map(other => documents.get(other))
+            .filter(document => document !== undefined));
+    });
+}
+
+/**
+ * Replace the diagnostics of a document in the results of the scans covering it.
+ *
+ * @param uri The document uri.
+ * @param diagnostics The diagnostics of the document.
+ */
+function updateScanResults(uri: string, diagnostics: Diagnostic[]): void {
+    let changed = false;
+    scanResults.forEach((scanned, folderUri) => {
+        if (isInsideFolder(uri, folderUri)) {
+            scanned.set(uri, diagnostics);
+            changed = true;
+        }
+    });
+    if (changed) {
+        connection.sendNotification('drupalCheck/didChangeScanResults');
     }
 }
 
+/**
+ * Publish the diagnostics of a document, keeping them for code actions.
+ *
+ * @param uri The document uri.
+ * @param diagnostics The diagnostics.
+ */
+function publishDiagnostics(uri: string, diagnostics: Diagnostic[]): void {
+    if (diagnostics.length > 0) {
+        publishedDiagnostics.set(uri, diagnostics);
+    } else {
+        publishedDiagnostics.delete(uri);
+    }
+    connection.sendDiagnostics({ uri, diagnostics });
+}
+
 /**
  * Sends a notification for starting validation of a document.
  *
  * @param document The text document on which validation started.
+ * @return number The identifier of this validation.
  */
-function sendStartValidationNotification(document: TextDocument): void {
-    validating.set(document.uri, document);
+function sendStartValidationNotification(document: TextDocument): number {
+    const validation = ++validationCount;
+    validating.set(document.uri, validation);
     const start = "textDocument/didStartValidate";
     connection.sendNotification(start,
         { textDocument: TextDocumentIdentifier.create(document.uri) }
     );
     connection.tracer.log(strings.format(SR.DidStartValidateTextDocument, document.uri));
+    return validation;
 }
 
 /**
  * Sends a notification for ending validation of a document.
  *
+ * Nothing is sent when a newer validation of the document has started since.
+ *
  * @param document The text document on which validation ended.
+ * @param validation The identifier returned when the validation started.
+ * @return boolean False when a newer validation of the document has started since.
  */
-function sendEndValidationNotification(document: TextDocument): void {
+function sendEndValidationNotification(document: TextDocument, validation: number): boolean {
+    if (validating.get(document.uri) !== validation) {
+        return false;
+    }
     validating.delete(document.uri);
     const end = "textDocument/didEndValidate";
     connection.sendNotification(end,
         { textDocument: TextDocumentIdentifier.create(document.uri) }
     );
     connection.tracer.log(strings.format(SR.DidEndValidateTextDocument, document.uri));
+    return true;
 }
 
 /**
@@ -212,7 +1145,7 @@ function sendEndValidationNotification(document: TextDocument): void {
  * @param document The document where the exception occurred.
  * @return string The exception message.
  */
-function getExceptionMessage(exception: Error, document: TextDocument): string {
+function getExceptionMessage(exception: Error, document: TextDocument | null): string {
     let message: string = null;
     if (typeof exception.message === 'string') {
         message = <string>exception.message;
@@ -221,7 +1154,8 @@ function getExceptionMessage(exception: Error, document: TextDocument): string {
             message = message.substr(5);
         }
     } else {
-        message = strings.format(SR.UnknownErrorWhileValidatingTextDocument, Files.uriToFilePath(document.uri));
+        const target = document !== null ? Files.uriToFilePath(document.uri) : SR.Workspace;
+        message = strings.format(SR.UnknownErrorWhileValidatingTextDocument, target);
     }
     return message;
 }
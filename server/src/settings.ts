@@ -1,7 +1,65 @@
 'use strict';
+import { Replacement } from './replacements';
+import { ContainerPreset } from './container';
+
+/**
+ * The kinds of checks drupal-check offers.
+ */
+export type CheckMode = 'deprecations' | 'analysis' | 'style';
+
+export type SeverityName = 'Error' | 'Warning' | 'Information' | 'Hint';
+
+export interface SeverityRule {
+    // A regular expression matched against the message.
+    pattern: string;
+    severity: SeverityName;
+}
+
+export interface SeveritySettings {
+    deprecation: SeverityName;
+    removed: SeverityName;
+    analysis: SeverityName;
+    style: SeverityName;
+    // Checked in order before the categories; the first match wins.
+    rules: SeverityRule[];
+}
+
 export interface CheckerSettings {
     enable: boolean;
+    deprecations: boolean;
+    analysis: boolean;
+    style: boolean;
     executablePath: string | null;
+    // Runs drupal-check through another command, with {args} standing for its arguments.
+    commandTemplate: string | null;
+    // Container paths, keyed by host path; relative host paths are resolved against the workspace folder.
+    pathMappings: { [hostPath: string]: string };
+    // The container to detect when no command template is set.
+    container: 'auto' | 'none' | ContainerPreset;
+    drupalRoot: string | null;
     workspaceRoot: string | null;
     maxNumberOfProblems: number;
+    severity: SeveritySettings;
+    // The Drupal version the project upgrades to, such as "10"; deprecations are weighed against it when set.
+    targetCoreVersion: string | null;
+    // Raise deprecations blocking the upgrade to errors, or keep their severity.
+    blockingFindings: 'highlight' | 'show';
+    // Lower deprecations not blocking the upgrade to information, hide them or keep their severity.
+    nonBlockingFindings: 'downgrade' | 'hide' | 'show';
+    // How to count deprecations that do not tell the version they are removed from.
+    unknownRemovalVersion: 'blocking' | 'nonBlocking';
+    replacements: Replacement[];
+    // The baseline file; relative paths are resolved against the workspace folder.
+    baseline: string | null;
+    showBaselined: boolean;
+    // Whether to reuse the results of unchanged files across sessions.
+    cache: boolean;
+    maxConcurrentProcesses: number;
+    // The number of documents checked by one drupal-check run when validating several at once.
+    batchSize: number;
+    timeout: number;
+    // The timeout of runs checking a whole folder; zero lets them run until cancelled.
+    scanTimeout: number;
+    run: 'onSave' | 'onType';
+    runDelay: number;
 }
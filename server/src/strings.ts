@@ -5,18 +5,43 @@ export class StringResources {
     static readonly DidStartValidateTextDocument: string = 'Linting started on: {0}';
     static readonly DidEndValidateTextDocument: string = 'Linting completed on: {0}';
 
-    static readonly ComposerDependencyNotFoundError: string = 'Composer drupal-check dependency is configured but was not found under {0}. You may need to run "composer install" or set your phpcs.executablePath manually.';
-    static readonly UnableToLocatePhpcsError: string = 'Unable to locate drupal-check. Please add phpcs to your global path or use composer dependency manager to install it in your project locally.';
+    static readonly ComposerDependencyNotFoundError: string = 'Composer drupal-check dependency is configured but was not found under {0}. You may need to run "composer install" or set your drupalCheck.executablePath manually.';
+    static readonly UnableToLocateDrupalCheckError: string = 'Unable to locate drupal-check. Searched: {0}. Please add drupal-check to your global path or use composer dependency manager to install it in your project locally.';
+    static readonly ConfiguredExecutableNotFoundError: string = 'The drupal-check executable configured in drupalCheck.executablePath was not found at {0}.';
+    static readonly UsingExecutable: string = 'Using drupal-check from {0}: {1}';
+    static readonly RunFinished: string = 'Ran {0} in {1} ms, exit code {2}';
+    static readonly RunTimedOut: string = 'Timed out {0} after {1} ms';
+    static readonly RunCancelled: string = 'Cancelled {0} after {1} ms';
     static readonly InvalidVersionStringError: string = 'Invalid version string encountered!';
     static readonly UnknownErrorWhileValidatingTextDocument: string = 'An unknown error occurred while validating: {0}';
 
     static readonly CreateCheckerErrorDefaultMessage: string = 'Please add drupal-check to your global path or use composer dependency manager to install it in your project locally.';
     static readonly CreateCheckerError: string = 'Unable to locate drupal-check. {0}';
 
+    static readonly ExecutableNotFoundError: string = 'The drupal-check executable {0} was not found. Install drupal-check or set drupalCheck.executablePath.';
+    static readonly ExecutableNotExecutableError: string = 'The drupal-check executable {0} is not executable. Check its permissions or set drupalCheck.executablePath.';
+    static readonly OutOfMemoryError: string = 'drupal-check ran out of memory. Raise the PHP memory_limit used by drupal-check.';
+    static readonly AutoloadError: string = 'drupal-check could not load the autoloader of the project. Run "composer install", or set drupalCheck.drupalRoot to the Drupal root.';
+    static readonly CheckCrashedError: string = 'drupal-check exited with code {0} without a report. See the output for details.';
+    static readonly CheckTimeoutError: string = 'drupal-check did not finish within {0} seconds. You may need to increase {1}.';
+    static readonly DrupalRootNotFoundWarning: string = 'drupal-check could not find the Drupal root (the directory containing core/lib/Drupal.php). Set drupalCheck.drupalRoot to point to it.';
+    static readonly ObsoleteBaselineEntries: string = '{0} baselined findings no longer occur in {1}. Generate the baseline again to tighten it.';
+    static readonly ProblemsHidden: string = '{0} additional drupal-check problems hidden';
+    static readonly CoreVersionRequirementMissing: string = 'core_version_requirement is missing, so Drupal {0} will not install this extension.';
+    static readonly CoreVersionRequirementLegacy: string = 'The extension only declares "core: {0}". Add core_version_requirement to support Drupal {1}.';
+    static readonly CoreVersionRequirementIncompatible: string = 'core_version_requirement "{0}" does not allow Drupal {1}.';
+    static readonly ComposerCoreIncompatible: string = 'The {0} constraint "{1}" does not allow Drupal {2}.';
+    static readonly InvalidVersionConstraint: string = 'The version constraint "{0}" cannot be parsed.';
+    static readonly BaselineWritten: string = 'Wrote drupal-check baseline: {0}';
+    static readonly ReportWritten: string = 'Wrote drupal-check report: {0}';
+    static readonly ExportWritten: string = 'Wrote drupal-check findings: {0}';
     static readonly UnknownExecutionError: string = 'Unknown error ocurred. Please verify that {0} returns a valid json object.';
     static readonly CodingStandardNotInstalledError: string = 'The "{0}" coding standard is not installed. Please review your configuration an try again.';
     static readonly InvalidJsonStringError: string = 'The drupal-check report contains invalid json. Please review "Diagnosing Common Errors" in the plugin README';
 
+    static readonly OpenSettings: string = 'Open Settings';
+    static readonly ShowOutput: string = 'Show Output';
+    static readonly Workspace: string = 'the workspace';
     static readonly Empty: string = '';
     static readonly Space: string = ' ';
 }
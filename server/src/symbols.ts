@@ -0,0 +1,47 @@
+"use strict";
+import { PhpIdentifier } from './tokenizer';
+
+// Patterns extracting the symbol a message is about, tried in order.
+const symbolPatterns: RegExp[] = [
+    /\bdeprecated (?:static )?(?:function|method) (?:[\w\\]+::)?([\w\\]+)\(\)/i,
+    /\bundefined (?:static )?(?:function|method) (?:[\w\\]+::)?([\w\\]+)\(\)/i,
+    /\bdeprecated (?:class|interface|trait|enum) (?!constant\b)([\w\\]+)/i,
+    /\bdeprecated (?:class )?constant (?:[\w\\]+::)?(\w+)/i,
+    /\bdeprecated (?:static )?property (?:[\w\\]+::)?\$?(\w+)/i,
+    /\bundefined (?:static )?property (?:[\w\\]+::)?\$?(\w+)/i,
+    /^(?:Function|Class|Interface|Trait|Constant) ([\w\\]+) not found/i,
+    /\bunknown class ([\w\\]+)/i,
+];
+
+/**
+ * Extract the name of the symbol a drupal-check message is about, for example
+ * `drupal_set_message` from "Call to deprecated function drupal_set_message()".
+ * Namespaces are dropped, as code often refers to the imported short name.
+ *
+ * @param message The drupal-check message.
+ * @return string The symbol name, or null if the message names none.
+ */
+export function extractSymbol(message: string): string | null {
+    for (const pattern of symbolPatterns) {
+        const match = pattern.exec(message);
+        if (match !== null) {
+            const segments = match[1].split('\\');
+            return segments[segments.length - 1];
+        }
+    }
+    return null;
+}
+
+/**
+ * Find the first identifier on a line naming the symbol. PHP names are
+ * compared without case, as functions and classes are case insensitive.
+ *
+ * @param identifiers The identifiers of the line.
+ * @param symbol The symbol name.
+ * @return PhpIdentifier The identifier, or null if the line does not use the symbol.
+ */
+export function findSymbol(identifiers: PhpIdentifier[], symbol: string): PhpIdentifier | null {
+    const name = symbol.toLowerCase();
+    const identifier = identifiers.find(candidate => candidate.name.toLowerCase() === name);
+    return identifier !== undefined ? identifier : null;
+}
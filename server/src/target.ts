@@ -0,0 +1,65 @@
+"use strict";
+import { DiagnosticSeverity } from "vscode-languageserver";
+import { DeprecationInfo } from './deprecation';
+import { CheckerSettings } from './settings';
+
+/**
+ * Get the severity of a deprecation with respect to the Drupal version the
+ * project upgrades to. Deprecations blocking the upgrade may be raised to
+ * errors, the others lowered to information or hidden.
+ *
+ * @param deprecation The details of the deprecation, or null when the message tells none.
+ * @param severity The severity configured for the finding.
+ * @param settings The settings naming the target version.
+ * @return DiagnosticSeverity The severity to use, or null when the finding is hidden.
+ */
+export function getTargetSeverity(deprecation: DeprecationInfo | null, severity: DiagnosticSeverity, settings: CheckerSettings): DiagnosticSeverity | null {
+    if (!settings.targetCoreVersion) {
+        return severity;
+    }
+    const removedIn = deprecation !== null ? deprecation.removedIn : null;
+    const blocking = removedIn !== null ?
+        blocksUpgrade(removedIn, settings.targetCoreVersion) :
+        settings.unknownRemovalVersion !== 'nonBlocking';
+    if (blocking) {
+        return settings.blockingFindings === 'show' ? severity : DiagnosticSeverity.Error;
+    }
+    switch (settings.nonBlockingFindings) {
+        case 'hide':
+            return null;
+        case 'show':
+            return severity;
+        default:
+            // Lower to information, keeping findings that are less severe already.
+            return severity === DiagnosticSeverity.Hint ? severity : DiagnosticSeverity.Information;
+    }
+}
+
+/**
+ * Whether a finding must be fixed before upgrading to a Drupal version, that
+ * is whether the API is removed from that version or an earlier one. APIs of
+ * unknown removal version are assumed to block.
+ *
+ * @param removedIn The version the API is removed from, such as "10.0.0".
+ * @param targetVersion The Drupal version to upgrade to, such as "10" or "10.1".
+ * @return boolean True when the finding blocks the upgrade.
+ */
+export function blocksUpgrade(removedIn: string | null, targetVersion: string): boolean {
+    return removedIn === null || compareVersions(removedIn, targetVersion) <= 0;
+}
+
+/**
+ * Compare two versions part by part. Missing parts count as zero, so
+ * "10" equals "10.0.0".
+ */
+export function compareVersions(a: string, b: string): number {
+    const partsA = a.split('.').map(part => parseInt(part, 10) || 0);
+    const partsB = b.split('.').map(part => parseInt(part, 10) || 0);
+    for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+        const difference = (partsA[i] || 0) - (partsB[i] || 0);
+        if (difference !== 0) {
+            return difference;
+        }
+    }
+    return 0;
+}
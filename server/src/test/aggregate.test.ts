@@ -0,0 +1,69 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { DiagnosticSeverity, Range } from 'vscode-languageserver';
+import { getDeprecationTree, groupFindings } from '../aggregate';
+import { MessageCategory } from '../classifier';
+import { DrupalCheckDiagnostic } from '../diagnostic';
+import { parseDeprecation } from '../deprecation';
+import { filePathToUri } from '../paths';
+import { createTree, removeTree } from './helper';
+
+function createDiagnostic(message: string, line: number, category: MessageCategory, baselined = false): DrupalCheckDiagnostic {
+    return {
+        range: Range.create(line, 0, line, 1),
+        message,
+        severity: baselined ? DiagnosticSeverity.Hint : DiagnosticSeverity.Warning,
+        source: 'drupalchecker',
+        data: { ignorable: true, category, deprecation: parseDeprecation(message) || undefined, baselined },
+    };
+}
+
+describe('getDeprecationTree', () => {
+    let root: string;
+    let results: Map<string, DrupalCheckDiagnostic[]>;
+
+    before(() => {
+        root = createTree({
+            'modules/example/example.info.yml': 'name: Example\ntype: module\n',
+            'modules/example/example.module': '',
+            'scripts/run.php': '',
+        });
+        results = new Map([
+            [filePathToUri(path.join(root, 'modules', 'example', 'example.module')), [
+                createDiagnostic('Call to deprecated function foo(): in drupal:9.3.0 and is removed from drupal:10.0.0.', 1, 'deprecation'),
+                createDiagnostic('Call to deprecated function foo(): in drupal:9.3.0 and is removed from drupal:10.0.0.', 2, 'deprecation'),
+                createDiagnostic('Call to deprecated function bar(): in drupal:10.1.0 and is removed from drupal:11.0.0.', 3, 'deprecation'),
+                createDiagnostic('Call to deprecated function baz().', 4, 'deprecation'),
+                createDiagnostic('Call to deprecated function old(): in drupal:8.0.0 and is removed from drupal:9.0.0.', 5, 'deprecation', true),
+                createDiagnostic('Variable $foo might not be defined.', 6, 'analysis'),
+            ]],
+            [filePathToUri(path.join(root, 'scripts', 'run.php')), [
+                createDiagnostic('Call to deprecated method qux() of class Example.', 0, 'deprecation'),
+            ]],
+        ]);
+    });
+
+    after(() => removeTree(root));
+
+    it('groups deprecations by extension and API, leaving out other findings', () => {
+        const tree = getDeprecationTree(results, null, () => true);
+        assert.deepEqual(tree.versions, ['10.0.0', '11.0.0']);
+        assert.deepEqual(tree.extensions.map(extension => [extension.name, extension.type, extension.count]), [['Example', 'module', 4], ['Other files', null, 1]]);
+        assert.deepEqual(tree.extensions[0].apis.map(api => [api.api, api.removedIn, api.count]), [['foo()', '10.0.0', 2], ['bar()', '11.0.0', 1], ['baz()', null, 1]]);
+    });
+
+    it('keeps the deprecations blocking the target version', () => {
+        const tree = getDeprecationTree(results, '10', () => true);
+        assert.deepEqual(tree.extensions[0].apis.map(api => api.api), ['foo()', 'baz()']);
+        const known = getDeprecationTree(results, '10', () => false);
+        assert.deepEqual(known.extensions.map(extension => extension.apis.map(api => api.api)), [['foo()']]);
+    });
+
+    it('leaves out baselined deprecations but not those of severity Hint', () => {
+        const hinted = new Map(Array.from(results.entries()).map(([uri, diagnostics]): [string, DrupalCheckDiagnostic[]] => {
+            return [uri, diagnostics.map(diagnostic => Object.assign({}, diagnostic, { severity: DiagnosticSeverity.Hint }))];
+        }));
+        const findings = groupFindings(hinted).map(group => group.findings.map(finding => finding.line));
+        assert.deepEqual(findings, [[2, 3, 4, 5], [1]]);
+    });
+});
@@ -0,0 +1,90 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Diagnostic, DiagnosticSeverity, Range } from 'vscode-languageserver';
+import { Baseline } from '../baseline';
+import { createTree, removeTree } from './helper';
+
+const messages = [
+    'Call to deprecated function drupal_set_message(): in drupal:8.5.0 and is removed from drupal:9.0.0. Use \\Drupal\\Core\\Messenger\\MessengerInterface::addMessage() instead. See https://www.drupal.org/node/2774931',
+    'Access to an undefined property Drupal\\node\\Entity\\Node::$foo [$bar|#baz].',
+];
+
+function createDiagnostic(message: string, line = 0): Diagnostic {
+    return Diagnostic.create(Range.create(line, 0, line, 1), message, DiagnosticSeverity.Error, 'deprecations', 'drupalchecker');
+}
+
+describe('Baseline', () => {
+    let root: string;
+
+    beforeEach(() => {
+        root = createTree({ 'web/modules/example/example.module': '' });
+    });
+
+    afterEach(() => removeTree(root));
+
+    ['drupal-check-baseline.neon', 'drupal-check-baseline.json'].forEach(fileName => {
+        it(`reads back the findings it writes to ${path.extname(fileName)} files`, () => {
+            const baselinePath = path.join(root, fileName);
+            const filePath = path.join(root, 'web', 'modules', 'example', 'example.module');
+            Baseline.write(baselinePath, new Map([[filePath, [messages[0], messages[1], messages[0]]]]));
+            const baseline = Baseline.load(baselinePath);
+            assert.deepEqual(baseline.getFiles(root), [filePath]);
+
+            const diagnostics = [messages[0], messages[0], messages[0], messages[1]].map((message, line) => createDiagnostic(message, line));
+            const result = baseline.filter(filePath, diagnostics, false);
+            // Only as many findings as counted are hidden.
+            assert.deepEqual(result.diagnostics.map(diagnostic => diagnostic.range.start.line), [2]);
+            assert.equal(result.obsolete, 0);
+        });
+    });
+
+    it('reads baselines written by PHPStan', () => {
+        const baselinePath = path.join(root, 'phpstan-baseline.neon');
+        fs.writeFileSync(baselinePath, [
+            'parameters:',
+            '\tignoreErrors:',
+            '\t\t-',
+            '\t\t\tmessage: "#^Call to deprecated function drupal_set_message\\\\(\\\\)\\\\:#"',
+            '\t\t\tcount: 2',
+            '\t\t\tpath: web/modules/example/example.module',
+            '',
+            '\t\t-',
+            "\t\t\tmessage: '#^Variable \\$foo might not be defined\\.$#'",
+            '\t\t\tpath: web/modules/example/example.module',
+        ].join('\n'));
+        const filePath = path.join(root, 'web', 'modules', 'example', 'example.module');
+        const result = Baseline.load(baselinePath).filter(filePath, [
+            createDiagnostic(messages[0]),
+            createDiagnostic('Variable $foo might not be defined.'),
+            createDiagnostic('Variable $bar might not be defined.'),
+        ], false);
+        assert.deepEqual(result.diagnostics.map(diagnostic => diagnostic.message), ['Variable $bar might not be defined.']);
+        assert.equal(result.obsolete, 1);
+    });
+
+    it('marks baselined findings shown as hints', () => {
+        const baselinePath = path.join(root, 'drupal-check-baseline.json');
+        const filePath = path.join(root, 'web', 'modules', 'example', 'example.module');
+        Baseline.write(baselinePath, new Map([[filePath, [messages[0]]]]));
+        const result = Baseline.load(baselinePath).filter(filePath, [createDiagnostic(messages[0]), createDiagnostic(messages[1])], true);
+        assert.deepEqual(result.diagnostics.map(diagnostic => [diagnostic.severity, diagnostic.data]), [
+            [DiagnosticSeverity.Hint, { ignorable: false, baselined: true }],
+            [DiagnosticSeverity.Error, undefined],
+        ]);
+    });
+
+    it('counts the findings that no longer occur', () => {
+        const baselinePath = path.join(root, 'drupal-check-baseline.neon');
+        const filePath = path.join(root, 'web', 'modules', 'example', 'example.module');
+        Baseline.write(baselinePath, new Map([[filePath, messages]]));
+        const baseline = Baseline.load(baselinePath);
+        assert.equal(baseline.filter(filePath, [createDiagnostic(messages[1])], false).obsolete, 1);
+        assert.equal(baseline.countObsolete(path.join(root, 'web')), 1);
+        assert.equal(baseline.countObsolete(path.join(root, 'other')), 0);
+    });
+
+    it('returns null when the file does not exist', () => {
+        assert.equal(Baseline.load(path.join(root, 'missing.neon')), null);
+    });
+});
@@ -0,0 +1,52 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ResultCache } from '../cache';
+import { createTree, removeTree } from './helper';
+
+describe('ResultCache', () => {
+    let root: string;
+    let cache: ResultCache;
+    const messages = { deprecation: [{ message: 'Call to deprecated function foo().', line: 3, ignorable: true }] };
+
+    beforeEach(() => {
+        root = createTree({});
+        // The storage path of an extension does not exist until it is first used.
+        cache = new ResultCache(path.join(root, 'storage'));
+    });
+
+    afterEach(() => removeTree(root));
+
+    it('returns the messages stored for a file and key', () => {
+        cache.set('/var/www/example.module', 'key', messages);
+        assert.ok(fs.existsSync(path.join(root, 'storage', 'results')));
+        assert.deepEqual(cache.get('/var/www/example.module', 'key'), messages);
+    });
+
+    it('misses for another key or file', () => {
+        cache.set('/var/www/example.module', 'key', messages);
+        assert.equal(cache.get('/var/www/example.module', 'other'), null);
+        assert.equal(cache.get('/var/www/other.module', 'key'), null);
+    });
+
+    it('replaces the entry of a file', () => {
+        cache.set('/var/www/example.module', 'key', messages);
+        cache.set('/var/www/example.module', 'other', {});
+        assert.equal(cache.get('/var/www/example.module', 'key'), null);
+        assert.deepEqual(cache.get('/var/www/example.module', 'other'), {});
+    });
+
+    it('removes every entry on clear', () => {
+        cache.set('/var/www/example.module', 'key', messages);
+        cache.set('/var/www/other.module', 'key', messages);
+        cache.clear();
+        assert.equal(cache.get('/var/www/example.module', 'key'), null);
+        assert.equal(cache.get('/var/www/other.module', 'key'), null);
+        assert.deepEqual(fs.readdirSync(path.join(root, 'storage', 'results')), []);
+    });
+
+    it('clears nothing before anything was stored', () => {
+        cache.clear();
+        assert.ok(!fs.existsSync(path.join(root, 'storage')));
+    });
+});
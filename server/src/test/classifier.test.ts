@@ -0,0 +1,67 @@
+import * as assert from 'assert';
+import { DiagnosticSeverity } from 'vscode-languageserver';
+import { classifyMessage, getSeverity } from '../classifier';
+import { SeveritySettings } from '../settings';
+
+const settings: SeveritySettings = {
+    deprecation: 'Warning',
+    removed: 'Error',
+    analysis: 'Information',
+    style: 'Hint',
+    rules: [],
+};
+
+describe('classifyMessage', () => {
+    it('recognises deprecations', () => {
+        const entry = { message: 'Call to deprecated function drupal_set_message().', line: 1, ignorable: true };
+        assert.equal(classifyMessage(entry, 'deprecations'), 'deprecation');
+    });
+
+    it('recognises APIs that no longer exist', () => {
+        ['Call to an undefined method Drupal\\Core\\Entity\\EntityManager::getStorage().',
+            'Class Drupal\\Core\\Entity\\EntityManager not found.',
+            'Function drupal_set_message not found.',
+            'Access to an undefined property Drupal\\node\\Entity\\Node::$foo.',
+            'Parameter $manager of method Example::__construct() has invalid type Drupal\\Foo (unknown class Drupal\\Foo).',
+        ].forEach(message => assert.equal(classifyMessage({ message, line: 1, ignorable: true }, 'analysis'), 'removed', message));
+    });
+
+    it('leaves other findings to the mode they came from', () => {
+        const entry = { message: 'Variable $foo might not be defined.', line: 1, ignorable: true };
+        assert.equal(classifyMessage(entry, 'analysis'), 'analysis');
+        assert.equal(classifyMessage(entry, 'style'), 'style');
+    });
+
+    it('treats findings that cannot be ignored as analysis errors', () => {
+        const entry = { message: 'Syntax error, unexpected deprecated token', line: 1, ignorable: false };
+        assert.equal(classifyMessage(entry, 'deprecations'), 'analysis');
+    });
+});
+
+describe('getSeverity', () => {
+    const entry = { message: 'Call to deprecated method getStorage() of class Drupal\\Core\\Entity\\EntityManager.', line: 1, ignorable: true };
+
+    it('uses the severity of the category', () => {
+        assert.equal(getSeverity(entry, 'deprecation', settings), DiagnosticSeverity.Warning);
+        assert.equal(getSeverity(entry, 'style', settings), DiagnosticSeverity.Hint);
+    });
+
+    it('tries rules first, in order', () => {
+        const rules = Object.assign({}, settings, {
+            rules: [
+                { pattern: 'entitymanager', severity: 'Information' },
+                { pattern: 'getStorage', severity: 'Error' },
+            ],
+        });
+        assert.equal(getSeverity(entry, 'deprecation', rules), DiagnosticSeverity.Information);
+    });
+
+    it('skips invalid rules', () => {
+        const rules = Object.assign({}, settings, { rules: [{ pattern: '(', severity: 'Error' }] });
+        assert.equal(getSeverity(entry, 'deprecation', rules), DiagnosticSeverity.Warning);
+    });
+
+    it('reports errors without settings', () => {
+        assert.equal(getSeverity(entry, 'deprecation', undefined), DiagnosticSeverity.Error);
+    });
+});
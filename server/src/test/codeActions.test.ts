@@ -0,0 +1,119 @@
+import * as assert from 'assert';
+import { Command, DiagnosticSeverity, Range, TextDocument, WorkspaceEdit } from 'vscode-languageserver';
+import { getCodeActions } from '../codeActions';
+import { DrupalCheckDiagnostic } from '../diagnostic';
+import { applyReplacement, findReplacement } from '../replacements';
+import { CheckerSettings } from '../settings';
+
+const settings = <CheckerSettings>{ replacements: [{ symbol: 'legacy_format', replacement: 'format_value({1}, {0})' }] };
+
+/**
+ * Get the code actions for a finding starting at the first occurrence of a name.
+ */
+function getActions(text: string, name: string, message: string): { titles: string[]; edits: string[] } {
+    const document = TextDocument.create('file:///project/example.module', 'php', 1, text);
+    const start = document.positionAt(text.indexOf(name));
+    const diagnostic: DrupalCheckDiagnostic = {
+        range: Range.create(start, { line: start.line, character: start.character + name.length }),
+        message,
+        severity: DiagnosticSeverity.Warning,
+        code: 'deprecation',
+        source: 'drupalchecker',
+        data: { ignorable: false, category: 'deprecation' },
+    };
+    const actions = getCodeActions(document, [diagnostic], [diagnostic], settings);
+    return {
+        titles: actions.map(action => action.title),
+        edits: actions
+            .filter(action => action.edit !== undefined)
+            .map(action => (<WorkspaceEdit>action.edit).changes[document.uri].map(edit => {
+                const offset = document.offsetAt(edit.range.start);
+                return text.slice(0, offset) + edit.newText + text.slice(document.offsetAt(edit.range.end));
+            }).join()),
+    };
+}
+
+describe('applyReplacement', () => {
+    it('inserts all arguments or single ones by index', () => {
+        assert.equal(applyReplacement({ symbol: 'a', replacement: 'b({args})' }, ['$x', '[1, 2]']), 'b($x, [1, 2])');
+        assert.equal(applyReplacement({ symbol: 'a', replacement: 'b({1})->c({0})' }, ['$x', '$y']), 'b($y)->c($x)');
+        assert.equal(applyReplacement({ symbol: 'a', replacement: 'b({args})' }, []), 'b()');
+    });
+
+    it('returns null when the call lacks an argument', () => {
+        assert.equal(applyReplacement({ symbol: 'a', replacement: 'b({0})->c({1})' }, ['$x']), null);
+    });
+
+    it('finds replacements without case, preferring earlier entries', () => {
+        const replacements = [{ symbol: 'Unicode::strlen', replacement: 'first' }, { symbol: 'unicode::STRLEN', replacement: 'second' }];
+        assert.equal(findReplacement('unicode::strlen', replacements).replacement, 'first');
+        assert.equal(findReplacement('strlen', replacements), null);
+    });
+});
+
+describe('getCodeActions', () => {
+    it('replaces a function call', () => {
+        const { titles, edits } = getActions(
+            '<?php\n  drupal_set_message(t(\'Saved.\'), \'status\');\n',
+            'drupal_set_message',
+            'Call to deprecated function drupal_set_message().');
+        assert.equal(titles[0], 'Replace with \\Drupal::messenger()->addMessage(t(\'Saved.\'), \'status\')');
+        assert.deepEqual(edits, ['<?php\n  \\Drupal::messenger()->addMessage(t(\'Saved.\'), \'status\');\n']);
+    });
+
+    it('replaces a fully qualified function call', () => {
+        const { edits } = getActions('<?php\n$build = \\drupal_render($element);\n', 'drupal_render', 'Call to deprecated function drupal_render().');
+        assert.deepEqual(edits, ['<?php\n$build = \\Drupal::service(\'renderer\')->render($element);\n']);
+    });
+
+    it('replaces a static call, including its class qualifier', () => {
+        const { edits } = getActions(
+            '<?php\n$length = \\Drupal\\Component\\Utility\\Unicode::strlen($name);\n',
+            'strlen',
+            'Call to deprecated method strlen() of class Drupal\\Component\\Utility\\Unicode.');
+        assert.deepEqual(edits, ['<?php\n$length = mb_strlen($name);\n']);
+    });
+
+    it('splits arguments at top level commas only', () => {
+        const { edits } = getActions(
+            '<?php\nlegacy_format(foo($a, $b), [\'x\' => \'a, b)\', "c(" . $d], function () { return [1, 2]; });\n',
+            'legacy_format',
+            'Call to deprecated function legacy_format().');
+        assert.deepEqual(edits, ['<?php\nformat_value([\'x\' => \'a, b)\', "c(" . $d], foo($a, $b));\n']);
+    });
+
+    it('offers no replacement when the name at the finding differs', () => {
+        const { titles } = getActions('<?php\ndrupal_set_message_custom($a);\n', 'drupal_set_message_custom', 'Call to deprecated function drupal_set_message().');
+        assert.deepEqual(titles, []);
+    });
+
+    it('offers no replacement for instance methods or calls of self', () => {
+        assert.deepEqual(getActions('<?php\n$this->strlen($a);\n', 'strlen', 'Call to deprecated method strlen() of class Drupal\\Component\\Utility\\Unicode.').titles, []);
+        assert.deepEqual(getActions('<?php\nstatic::strlen($a);\n', 'strlen', 'Call to deprecated method strlen() of class Drupal\\Component\\Utility\\Unicode.').titles, []);
+    });
+
+    it('offers no replacement for a call missing an argument', () => {
+        assert.deepEqual(getActions('<?php\nentity_load(\'node\');\n', 'entity_load', 'Call to deprecated function entity_load().').edits, []);
+    });
+
+    it('falls back to copying the replacement the message suggests', () => {
+        const { titles } = getActions(
+            '<?php\n$path = drupal_get_path(\'module\', \'example\');\n',
+            'drupal_get_path',
+            'Call to deprecated function drupal_get_path(). Use \\Drupal\\Core\\Extension\\ExtensionPathResolver::getPath() instead.');
+        assert.deepEqual(titles, ['Copy suggested replacement: \\Drupal\\Core\\Extension\\ExtensionPathResolver::getPath()']);
+    });
+
+    it('passes the suggestion to the copy command', () => {
+        const text = '<?php\nformat_size($bytes);\n';
+        const document = TextDocument.create('file:///project/example.module', 'php', 1, text);
+        const diagnostic: DrupalCheckDiagnostic = {
+            range: Range.create(1, 0, 1, 11),
+            message: 'Call to deprecated function format_size(). Use ByteSizeMarkup::create() instead.',
+            source: 'drupalchecker',
+        };
+        const command = <Command>getCodeActions(document, [diagnostic], [diagnostic], settings)[0].command;
+        assert.equal(command.command, 'drupalCheck.copyToClipboard');
+        assert.deepEqual(command.arguments, ['ByteSizeMarkup::create()']);
+    });
+});
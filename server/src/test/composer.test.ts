@@ -0,0 +1,48 @@
+import * as assert from 'assert';
+import { allowsVersion } from '../composer';
+
+describe('allowsVersion', () => {
+    // Constraint, version and whether the constraint allows some release of the version.
+    const cases: [string, string, boolean][] = [
+        ['^10', '10', true],
+        ['^10.1', '10', true],
+        ['^10.1', '10.0', false],
+        ['^9.5', '10', false],
+        ['^9 || ^10', '10', true],
+        ['^8 | ^9', '10', false],
+        ['~10.1.0', '10.1', true],
+        ['~10.1.0', '10.2', false],
+        ['~10.1', '10.3', true],
+        ['>=8.8 <11', '10', true],
+        ['>=8.8, <10', '10', false],
+        ['<10', '10', false],
+        ['<=10', '10', true],
+        ['>10', '10', true],
+        ['>10', '10.0.0', false],
+        ['10.*', '10.2', true],
+        ['10.x', '11', false],
+        ['8.x - 10', '10.3', true],
+        ['8.9 - 9.5', '10', false],
+        ['9.5.0 - 10.0.0', '10.0', true],
+        ['10.2.0', '10', true],
+        ['10.2.0', '10.1', false],
+        ['^10.1@beta', '10', true],
+        ['^10.0.0-alpha1', '10', true],
+        ['*', '11', true],
+        ['!=10.0.0', '10', true],
+        ['^0.3', '0.3', true],
+        ['^0.3', '0.4', false],
+    ];
+
+    cases.forEach(([constraint, version, allowed]) => {
+        it(`${allowed ? 'allows' : 'does not allow'} ${version} for ${constraint}`, () => {
+            assert.equal(allowsVersion(constraint, version), allowed);
+        });
+    });
+
+    it('returns null for constraints it cannot parse', () => {
+        assert.equal(allowsVersion('dev-main', '10'), null);
+        assert.equal(allowsVersion('', '10'), null);
+        assert.equal(allowsVersion('^10', 'next'), null);
+    });
+});
@@ -0,0 +1,113 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { detectContainer, expandCommandTemplate, PathMapper } from '../container';
+import { createTree, removeTree } from './helper';
+
+describe('expandCommandTemplate', () => {
+    it('puts the arguments in place of {args}', () => {
+        assert.deepEqual(expandCommandTemplate('ddev exec vendor/bin/drupal-check {args}', ['--format=json', '/var/www/html/web']), {
+            command: 'ddev',
+            args: ['exec', 'vendor/bin/drupal-check', '--format=json', '/var/www/html/web'],
+        });
+    });
+
+    it('appends the arguments without {args}', () => {
+        assert.deepEqual(expandCommandTemplate('drupal-check', ['-d']), { command: 'drupal-check', args: ['-d'] });
+    });
+
+    it('keeps quoted words together', () => {
+        assert.deepEqual(expandCommandTemplate('"/opt/my tools/php" \'vendor/bin/drupal check\' "say \\"hi\\"" {args} --no-ansi', ['a b']), {
+            command: '/opt/my tools/php',
+            args: ['vendor/bin/drupal check', 'say "hi"', 'a b', '--no-ansi'],
+        });
+    });
+});
+
+describe('PathMapper', () => {
+    const project = path.resolve('/home/user/project');
+    const mapper = new PathMapper({ [project]: '/var/www/html/', [path.join(project, 'vendor')]: '/opt/vendor' });
+
+    it('translates host paths to the container with the most specific mapping', () => {
+        assert.equal(mapper.toContainer(path.join(project, 'web', 'index.php')), '/var/www/html/web/index.php');
+        assert.equal(mapper.toContainer(path.join(project, 'vendor', 'autoload.php')), '/opt/vendor/autoload.php');
+        assert.equal(mapper.toContainer(project), '/var/www/html');
+    });
+
+    it('translates container paths back to the host', () => {
+        assert.equal(mapper.toHost('/var/www/html/web/index.php'), path.join(project, 'web', 'index.php'));
+        assert.equal(mapper.toHost('/opt/vendor'), path.join(project, 'vendor'));
+    });
+
+    it('leaves paths outside the mappings alone', () => {
+        assert.equal(mapper.toContainer(path.resolve('/home/user/other')), path.resolve('/home/user/other'));
+        assert.equal(mapper.toHost('/var/www/htmlx/index.php'), '/var/www/htmlx/index.php');
+    });
+
+    it('translates the paths in messages', () => {
+        const message = 'Reflection error: Foo not found in /var/www/html/web/foo.php: line 3, see /tmp/log.';
+        assert.equal(mapper.replaceInText(message), `Reflection error: Foo not found in ${path.join(project, 'web', 'foo.php')}: line 3, see /tmp/log.`);
+    });
+});
+
+describe('detectContainer', () => {
+    let root: string;
+
+    beforeEach(() => {
+        root = createTree({
+            'ddev/.ddev/config.yaml': 'name: ddev\n',
+            'ddev/web/modules/example/example.module': '',
+            'lando/.lando.yml': 'name: lando\n',
+            'compose/docker-compose.yml': [
+                'services:',
+                '  db:',
+                '    image: mariadb',
+                '  php:',
+                '    image: drupal',
+                '    volumes:',
+                '      - ./:/var/www/html:cached',
+                '',
+            ].join('\n'),
+        });
+    });
+
+    afterEach(() => removeTree(root));
+
+    function installDrupalCheck(directory: string): void {
+        fs.mkdirSync(path.join(root, directory, 'vendor', 'bin'), { recursive: true });
+        fs.writeFileSync(path.join(root, directory, 'vendor', 'bin', 'drupal-check'), '');
+    }
+
+    it('detects DDEV above the project directory', () => {
+        installDrupalCheck('ddev');
+        assert.deepEqual(detectContainer(path.join(root, 'ddev'), null), {
+            preset: 'ddev',
+            commandTemplate: 'ddev exec vendor/bin/drupal-check {args}',
+            pathMappings: { [path.join(root, 'ddev')]: '/var/www/html' },
+        });
+    });
+
+    it('detects Lando', () => {
+        installDrupalCheck('lando');
+        assert.equal(detectContainer(path.join(root, 'lando'), null).preset, 'lando');
+    });
+
+    it('runs drupal-check in the docker compose service mounting the project', () => {
+        installDrupalCheck('compose');
+        assert.deepEqual(detectContainer(path.join(root, 'compose'), null), {
+            preset: 'docker-compose',
+            commandTemplate: 'docker compose exec -T -w /var/www/html php vendor/bin/drupal-check {args}',
+            pathMappings: { [path.join(root, 'compose')]: '/var/www/html' },
+        });
+    });
+
+    it('only picks a container on its own when the project has drupal-check in vendor/bin', () => {
+        assert.equal(detectContainer(path.join(root, 'ddev'), null), null);
+        assert.equal(detectContainer(path.join(root, 'ddev'), 'ddev').preset, 'ddev');
+    });
+
+    it('only looks for the chosen preset', () => {
+        installDrupalCheck('ddev');
+        assert.equal(detectContainer(path.join(root, 'ddev'), 'lando'), null);
+    });
+});
@@ -0,0 +1,52 @@
+import * as assert from 'assert';
+import { parseDeprecation } from '../deprecation';
+
+describe('parseDeprecation', () => {
+    it('reads the details of a Drupal deprecation message', () => {
+        const message = 'Call to deprecated function drupal_set_message(): in drupal:8.5.0 and is removed from drupal:9.0.0. ' +
+            'Use \\Drupal\\Core\\Messenger\\MessengerInterface::addMessage() instead. See https://www.drupal.org/node/2774931.';
+        assert.deepEqual(parseDeprecation(message), {
+            symbol: 'drupal_set_message()',
+            deprecatedIn: '8.5.0',
+            removedIn: '9.0.0',
+            replacement: '\\Drupal\\Core\\Messenger\\MessengerInterface::addMessage()',
+            url: 'https://www.drupal.org/node/2774931',
+        });
+    });
+
+    it('qualifies methods, constants and properties with their class', () => {
+        assert.equal(parseDeprecation('Call to deprecated method urlInfo() of class Drupal\\Core\\Entity\\EntityBase.').symbol, 'Drupal\\Core\\Entity\\EntityBase::urlInfo()');
+        assert.equal(parseDeprecation('Call to deprecated static method Drupal\\Core\\Url::fromUri().').symbol, 'Drupal\\Core\\Url::fromUri()');
+        assert.equal(
+            parseDeprecation('Fetching deprecated class constant EXISTS_REPLACE of class Drupal\\Core\\File\\FileSystemInterface.').symbol,
+            'Drupal\\Core\\File\\FileSystemInterface::EXISTS_REPLACE'
+        );
+        assert.equal(parseDeprecation('Access to deprecated property $entityManager of class Example.').symbol, 'Example::$entityManager');
+    });
+
+    it('reads classes and interfaces', () => {
+        assert.equal(parseDeprecation('Class Example extends deprecated class Drupal\\Core\\Entity\\EntityManager.').symbol, 'Drupal\\Core\\Entity\\EntityManager');
+        assert.equal(parseDeprecation('Class Example implements deprecated interface Drupal\\Foo\\BarInterface.').symbol, 'Drupal\\Foo\\BarInterface');
+    });
+
+    it('reads the other wordings of the versions', () => {
+        const info = parseDeprecation('Call to deprecated function entity_load(): in drupal:8.0.x and will be removed in drupal:9.0.0.');
+        assert.equal(info.deprecatedIn, '8.0.x');
+        assert.equal(info.removedIn, '9.0.0');
+        assert.equal(parseDeprecation('Call to deprecated method foo(): deprecated in drupal:10.1.0 and is removed from drupal:11.0.0.').deprecatedIn, '10.1.0');
+    });
+
+    it('leaves out what the message does not tell', () => {
+        assert.deepEqual(parseDeprecation('Call to deprecated function format_date().'), {
+            symbol: 'format_date()',
+            deprecatedIn: null,
+            removedIn: null,
+            replacement: null,
+            url: null,
+        });
+    });
+
+    it('returns null for messages without deprecation details', () => {
+        assert.equal(parseDeprecation('Variable $foo might not be defined.'), null);
+    });
+});
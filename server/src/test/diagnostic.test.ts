@@ -0,0 +1,24 @@
+import * as assert from 'assert';
+import { Diagnostic, DiagnosticSeverity, Range } from 'vscode-languageserver';
+import { getDiagnosticCode, isSameDiagnostic } from '../diagnostic';
+
+describe('getDiagnosticCode', () => {
+    it('names the check and the category', () => {
+        assert.equal(getDiagnosticCode('deprecations', 'removed'), 'deprecations/removed');
+        assert.equal(getDiagnosticCode('analysis', 'deprecation'), 'analysis/deprecation');
+    });
+});
+
+describe('isSameDiagnostic', () => {
+    const diagnostic = Diagnostic.create(Range.create(1, 2, 1, 8), 'Call to deprecated function foo().', DiagnosticSeverity.Warning, 'deprecations/deprecation', 'drupalchecker');
+
+    it('ignores the code, which the client may have turned into a link', () => {
+        assert.ok(isSameDiagnostic(diagnostic, Object.assign({}, diagnostic, { code: undefined })));
+    });
+
+    it('compares the message, source and range', () => {
+        assert.ok(!isSameDiagnostic(diagnostic, Object.assign({}, diagnostic, { message: 'Call to deprecated function bar().' })));
+        assert.ok(!isSameDiagnostic(diagnostic, Object.assign({}, diagnostic, { source: 'php' })));
+        assert.ok(!isSameDiagnostic(diagnostic, Object.assign({}, diagnostic, { range: Range.create(1, 2, 1, 9) })));
+    });
+});
@@ -0,0 +1,86 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { findDrupalProject, findExtension } from '../drupal';
+import { createTree, removeTree } from './helper';
+
+describe('findDrupalProject', () => {
+    let root: string;
+
+    before(() => {
+        root = createTree({
+            'classic/core/lib/Drupal.php': '',
+            'classic/modules/custom/example/src/Example.php': '',
+            'composer/composer.json': JSON.stringify({ extra: { 'drupal-scaffold': { locations: { 'web-root': 'docroot/' } } } }),
+            'composer/docroot/core/lib/Drupal.php': '',
+            'composer/docroot/modules/custom/example/example.module': '',
+            'installer/composer.json': JSON.stringify({ extra: { 'installer-paths': { 'app/core': ['type:drupal-core'] } } }),
+            'installer/app/modules/custom/example/example.module': '',
+            'fallback/composer.json': '{}',
+            'fallback/web/core/lib/Drupal.php': '',
+            'none/src/Example.php': '',
+        });
+    });
+
+    after(() => removeTree(root));
+
+    it('finds core/lib/Drupal.php above the directory', () => {
+        const project = findDrupalProject(path.join(root, 'classic', 'modules', 'custom', 'example', 'src'));
+        assert.deepEqual(project, { drupalRoot: path.join(root, 'classic'), projectRoot: path.join(root, 'classic') });
+    });
+
+    it('takes the project root from the composer.json above the Drupal root', () => {
+        const project = findDrupalProject(path.join(root, 'composer', 'docroot', 'modules', 'custom', 'example'));
+        assert.deepEqual(project, { drupalRoot: path.join(root, 'composer', 'docroot'), projectRoot: path.join(root, 'composer') });
+    });
+
+    it('reads the web root of drupal-scaffold from the project root', () => {
+        const project = findDrupalProject(path.join(root, 'composer'));
+        assert.deepEqual(project, { drupalRoot: path.join(root, 'composer', 'docroot'), projectRoot: path.join(root, 'composer') });
+    });
+
+    it('reads the drupal-core installer path', () => {
+        const project = findDrupalProject(path.join(root, 'installer', 'app', 'modules', 'custom', 'example'));
+        assert.deepEqual(project, { drupalRoot: path.join(root, 'installer', 'app'), projectRoot: path.join(root, 'installer') });
+    });
+
+    it('falls back to common web root names', () => {
+        const project = findDrupalProject(path.join(root, 'fallback'));
+        assert.deepEqual(project, { drupalRoot: path.join(root, 'fallback', 'web'), projectRoot: path.join(root, 'fallback') });
+    });
+
+    it('returns null outside a Drupal project', () => {
+        assert.equal(findDrupalProject(path.join(root, 'none', 'src')), null);
+    });
+});
+
+describe('findExtension', () => {
+    let root: string;
+
+    before(() => {
+        root = createTree({
+            'modules/example/example.info.yml': "name: 'Example module'\ntype: module\ncore_version_requirement: ^10\n",
+            'modules/example/src/Controller/ExampleController.php': '',
+            'themes/olivero/olivero.info.yml': 'name: Olivero\ntype: theme\n',
+            'themes/olivero/olivero.theme': '',
+            'scripts/run.php': '',
+        });
+    });
+
+    after(() => removeTree(root));
+
+    it('reads the nearest info file', () => {
+        assert.deepEqual(findExtension(path.join(root, 'modules', 'example', 'src', 'Controller', 'ExampleController.php')), {
+            machineName: 'example',
+            name: 'Example module',
+            type: 'module',
+            infoFile: path.join(root, 'modules', 'example', 'example.info.yml'),
+        });
+        const theme = findExtension(path.join(root, 'themes', 'olivero', 'olivero.theme'));
+        assert.equal(theme.type, 'theme');
+        assert.equal(theme.name, 'Olivero');
+    });
+
+    it('returns null for files outside any extension', () => {
+        assert.equal(findExtension(path.join(root, 'scripts', 'run.php')), null);
+    });
+});
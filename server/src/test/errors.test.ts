@@ -0,0 +1,110 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { TextDocument } from 'vscode-languageserver';
+import { DrupalCheck } from '../checker';
+import { CheckError, classifyFailure } from '../errors';
+import { filePathToUri } from '../paths';
+import { ProcessRunner } from '../runner';
+import { CheckerSettings } from '../settings';
+import { createTree, removeTree } from './helper';
+
+describe('classifyFailure', () => {
+    it('recognises PHP running out of memory', () => {
+        const output = 'PHP Fatal error:  Allowed memory size of 134217728 bytes exhausted (tried to allocate 20480 bytes)';
+        assert.equal(classifyFailure(output), 'outOfMemory');
+        assert.equal(classifyFailure('PHPStan process crashed because it reached configured PHP memory limit: 128M'), 'outOfMemory');
+    });
+
+    it('recognises a missing autoloader or Drupal root', () => {
+        assert.equal(classifyFailure('PHP Warning:  require(/app/vendor/autoload.php): failed to open stream'), 'autoload');
+        assert.equal(classifyFailure('Could not detect the Drupal root'), 'autoload');
+    });
+
+    it('returns null for other output', () => {
+        assert.equal(classifyFailure('Segmentation fault'), null);
+    });
+});
+
+// The fake executables are shell scripts.
+(process.platform === 'win32' ? describe.skip : describe)('DrupalCheck errors', () => {
+    const settings = <CheckerSettings><unknown>{
+        deprecations: true,
+        analysis: false,
+        style: false,
+        commandTemplate: null,
+        pathMappings: {},
+        drupalRoot: null,
+        workspaceRoot: null,
+        timeout: 1,
+        scanTimeout: 1,
+        cache: false,
+        baseline: null,
+        severity: undefined,
+    };
+    let root: string;
+    let document: TextDocument;
+
+    before(() => {
+        root = createTree({
+            'example.module': '<?php\nfoo();\n',
+            'out-of-memory': '#!/bin/sh\necho "PHP Fatal error:  Allowed memory size of 1024 bytes exhausted"\nexit 255\n',
+            'not-json': '#!/bin/sh\necho "Deprecated: something"\necho "{}"\n',
+            'crash': '#!/bin/sh\nexit 3\n',
+            'slow': '#!/bin/sh\nexec sleep 10\n',
+            'not-executable': '',
+        });
+        ['out-of-memory', 'not-json', 'crash', 'slow'].forEach(name => fs.chmodSync(path.join(root, name), 0o755));
+        const filePath = path.join(root, 'example.module');
+        document = TextDocument.create(filePathToUri(filePath), 'php', 1, fs.readFileSync(filePath, 'utf8'));
+    });
+
+    after(() => removeTree(root));
+
+    async function getError(executable: string): Promise<CheckError> {
+        const checker = DrupalCheck.create(path.join(root, executable), new ProcessRunner(1));
+        try {
+            await checker.check(document, settings);
+        } catch (error) {
+            return error;
+        }
+        assert.fail('The check did not fail.');
+    }
+
+    it('reports missing executables', async () => {
+        const error = await getError('missing');
+        assert.equal(error.kind, 'notFound');
+        assert.equal(error.setting, 'drupalCheck.executablePath');
+    });
+
+    it('reports files that cannot be executed', async () => {
+        assert.equal((await getError('not-executable')).kind, 'notExecutable');
+    });
+
+    it('reports PHP running out of memory', async () => {
+        assert.equal((await getError('out-of-memory')).kind, 'outOfMemory');
+    });
+
+    it('reports output that is not a report', async () => {
+        assert.equal((await getError('not-json')).kind, 'invalidJson');
+    });
+
+    it('reports crashes with their exit code', async () => {
+        const error = await getError('crash');
+        assert.equal(error.kind, 'crashed');
+        assert.ok(error.message.indexOf('3') !== -1, error.message);
+    });
+
+    it('reports runs exceeding the timeout', async () => {
+        const error = await getError('slow');
+        assert.equal(error.kind, 'timeout');
+        assert.equal(error.setting, 'drupalCheck.timeout');
+    });
+
+    it('limits folder scans by their own timeout', async () => {
+        const checker = DrupalCheck.create(path.join(root, 'slow'), new ProcessRunner(1));
+        await assert.rejects(checker.checkFolder(filePathToUri(root), settings), (error: CheckError) => {
+            return error.kind === 'timeout' && error.setting === 'drupalCheck.scanTimeout' && error.message.indexOf('drupalCheck.scanTimeout') !== -1;
+        });
+    });
+});
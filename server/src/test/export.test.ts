@@ -0,0 +1,129 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { DiagnosticSeverity, Range } from 'vscode-languageserver';
+import { DrupalCheckDiagnostic } from '../diagnostic';
+import { ExportFormat, writeExport } from '../export';
+import { filePathToUri } from '../paths';
+import { createTree, removeTree } from './helper';
+
+function createDiagnostic(message: string, line: number, severity: DiagnosticSeverity, href?: string): DrupalCheckDiagnostic {
+    const diagnostic: DrupalCheckDiagnostic = {
+        range: Range.create(line, 2, line, 8),
+        message,
+        severity,
+        code: 'deprecations/deprecation',
+        source: 'drupalchecker',
+        data: { ignorable: true, category: 'deprecation' },
+    };
+    if (href) {
+        diagnostic.codeDescription = { href };
+    }
+    return diagnostic;
+}
+
+interface SarifResult {
+    ruleId: string;
+    ruleIndex: number;
+    level: string;
+}
+
+interface GitLabIssue {
+    description: string;
+    check_name: string;
+    severity: string;
+    fingerprint: string;
+    location: {
+        path: string;
+        positions: { begin: { line: number; column: number }; end: { line: number; column: number } };
+    };
+}
+
+describe('writeExport', () => {
+    let root: string;
+    let results: Map<string, DrupalCheckDiagnostic[]>;
+
+    before(() => {
+        root = createTree({});
+        const baselined = createDiagnostic('Call to deprecated function old().', 9, DiagnosticSeverity.Hint);
+        baselined.data.baselined = true;
+        results = new Map([
+            [filePathToUri(path.join(root, 'modules', 'example', 'example.module')), [
+                createDiagnostic('Call to deprecated function foo(). See https://www.drupal.org/node/3123456', 3, DiagnosticSeverity.Warning, 'https://www.drupal.org/node/3123456'),
+                createDiagnostic('Call to deprecated function bar() of "<class>" & more.', 4, DiagnosticSeverity.Error),
+                baselined,
+                { range: Range.create(0, 0, 0, 1), message: 'Not a drupal-check finding.', source: 'php' },
+            ]],
+            [filePathToUri(path.join(root, 'src', 'Example.php')), [
+                createDiagnostic('Call to deprecated method baz() of class Example.', 0, DiagnosticSeverity.Hint),
+            ]],
+        ]);
+    });
+
+    after(() => removeTree(root));
+
+    function exportText(format: ExportFormat): string {
+        const exportPath = path.join(root, `export.${format}`);
+        const summary = writeExport(results, exportPath, format, root);
+        assert.deepEqual(summary, { findings: 3, files: 2 });
+        return fs.readFileSync(exportPath, 'utf8');
+    }
+
+    it('writes SARIF results referencing rules with change record links', () => {
+        const log = JSON.parse(exportText('sarif'));
+        assert.equal(log.version, '2.1.0');
+        const run = log.runs[0];
+        assert.deepEqual(run.tool.driver.rules, [
+            { id: 'deprecations/deprecation' },
+            { id: 'deprecations/deprecation/3123456', helpUri: 'https://www.drupal.org/node/3123456' },
+        ]);
+        assert.equal(run.originalUriBaseIds.SRCROOT.uri, filePathToUri(root) + '/');
+        assert.deepEqual((run.results as SarifResult[]).map(result => [result.ruleId, result.ruleIndex, result.level]), [
+            ['deprecations/deprecation/3123456', 1, 'warning'],
+            ['deprecations/deprecation', 0, 'error'],
+            ['deprecations/deprecation', 0, 'note'],
+        ]);
+        assert.deepEqual(run.results[0].locations[0].physicalLocation, {
+            artifactLocation: { uri: 'modules/example/example.module', uriBaseId: 'SRCROOT' },
+            region: { startLine: 4, startColumn: 3, endLine: 4, endColumn: 9 },
+        });
+        assert.equal(run.results[0].properties, undefined);
+    });
+
+    it('writes absolute uris for files outside the base path', () => {
+        const outside = path.join(path.dirname(root), 'outside.php');
+        const exportPath = path.join(root, 'outside.sarif');
+        writeExport(new Map([[filePathToUri(outside), [createDiagnostic('Call to deprecated function foo().', 0, DiagnosticSeverity.Warning)]]]), exportPath, 'sarif', root);
+        const log = JSON.parse(fs.readFileSync(exportPath, 'utf8'));
+        assert.deepEqual(log.runs[0].results[0].locations[0].physicalLocation.artifactLocation, { uri: filePathToUri(outside) });
+    });
+
+    it('writes Checkstyle XML grouped by file, escaping attributes', () => {
+        assert.equal(exportText('checkstyle'), [
+            '<?xml version="1.0" encoding="UTF-8"?>',
+            '<checkstyle>',
+            '<file name="modules/example/example.module">',
+            '  <error line="4" column="3" severity="warning" message="Call to deprecated function foo(). See https://www.drupal.org/node/3123456" source="drupalchecker.deprecations/deprecation" />',
+            '  <error line="5" column="3" severity="error" message="Call to deprecated function bar() of &quot;&lt;class&gt;&quot; &amp; more." source="drupalchecker.deprecations/deprecation" />',
+            '</file>',
+            '<file name="src/Example.php">',
+            '  <error line="1" column="3" severity="info" message="Call to deprecated method baz() of class Example." source="drupalchecker.deprecations/deprecation" />',
+            '</file>',
+            '</checkstyle>',
+            '',
+        ].join('\n'));
+    });
+
+    it('writes GitLab Code Quality issues with stable fingerprints', () => {
+        const issues: GitLabIssue[] = JSON.parse(exportText('gitlab'));
+        assert.deepEqual(issues.map(issue => [issue.check_name, issue.severity, issue.location.path]), [
+            ['drupalchecker.deprecations/deprecation', 'minor', 'modules/example/example.module'],
+            ['drupalchecker.deprecations/deprecation', 'major', 'modules/example/example.module'],
+            ['drupalchecker.deprecations/deprecation', 'info', 'src/Example.php'],
+        ]);
+        assert.deepEqual(issues[0].location.positions, { begin: { line: 4, column: 3 }, end: { line: 4, column: 9 } });
+        assert.equal(issues[0].description, 'Call to deprecated function foo(). See https://www.drupal.org/node/3123456');
+        assert.equal(new Set(issues.map(issue => issue.fingerprint)).size, 3);
+        assert.deepEqual((JSON.parse(exportText('gitlab')) as GitLabIssue[]).map(issue => issue.fingerprint), issues.map(issue => issue.fingerprint));
+    });
+});
@@ -0,0 +1,34 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * Create a directory tree in a temporary directory.
+ *
+ * @param files The content of each file, keyed by path relative to the tree.
+ * @return string The absolute path of the tree.
+ */
+export function createTree(files: { [filePath: string]: string }): string {
+    const root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'drupal-check-test-')));
+    Object.keys(files).forEach(filePath => {
+        const absolutePath = path.join(root, filePath);
+        fs.mkdirSync(path.dirname(absolutePath), { recursive: true });
+        fs.writeFileSync(absolutePath, files[filePath]);
+    });
+    return root;
+}
+
+/**
+ * Remove a tree created by createTree().
+ */
+export function removeTree(root: string): void {
+    fs.readdirSync(root, { withFileTypes: true }).forEach(entry => {
+        const entryPath = path.join(root, entry.name);
+        if (entry.isDirectory()) {
+            removeTree(entryPath);
+        } else {
+            fs.unlinkSync(entryPath);
+        }
+    });
+    fs.rmdirSync(root);
+}
@@ -0,0 +1,40 @@
+import * as assert from 'assert';
+import { Diagnostic, DiagnosticSeverity, Range } from 'vscode-languageserver';
+import { limitDiagnostics } from '../limit';
+
+function createDiagnostic(message: string, line: number, severity?: DiagnosticSeverity): Diagnostic {
+    return Diagnostic.create(Range.create(line, 0, line, 1), message, severity, 'deprecation', 'drupalchecker');
+}
+
+describe('limitDiagnostics', () => {
+    const diagnostics = [
+        createDiagnostic('Call to deprecated function a(): in drupal:9.3.0 and is removed from drupal:11.0.0.', 0, DiagnosticSeverity.Warning),
+        createDiagnostic('Variable $b might not be defined.', 1, DiagnosticSeverity.Information),
+        createDiagnostic('Call to deprecated function c(): in drupal:9.3.0 and is removed from drupal:10.0.0.', 2, DiagnosticSeverity.Warning),
+        createDiagnostic('Call to undefined function d().', 3),
+        createDiagnostic('Call to deprecated function e().', 4, DiagnosticSeverity.Warning),
+    ];
+
+    it('keeps every problem up to the limit', () => {
+        assert.strictEqual(limitDiagnostics(diagnostics, diagnostics.length), diagnostics);
+        assert.strictEqual(limitDiagnostics(diagnostics, 0), diagnostics);
+    });
+
+    it('keeps the most severe problems, nearest removals first, in their original order', () => {
+        const limited = limitDiagnostics(diagnostics, 2);
+        assert.deepEqual(limited.slice(0, 2).map(diagnostic => diagnostic.range.start.line), [2, 3]);
+        assert.deepEqual(limitDiagnostics(diagnostics, 3).slice(0, 3).map(diagnostic => diagnostic.range.start.line), [0, 2, 3]);
+        assert.deepEqual(limitDiagnostics(diagnostics, 4).slice(0, 4).map(diagnostic => diagnostic.range.start.line), [0, 2, 3, 4]);
+    });
+
+    it('ends with a summary of the hidden problems', () => {
+        const limited = limitDiagnostics(diagnostics, 2);
+        assert.equal(limited.length, 3);
+        const summary = limited[2];
+        assert.equal(summary.message, '3 additional drupal-check problems hidden');
+        assert.equal(summary.severity, DiagnosticSeverity.Information);
+        assert.equal(summary.source, 'drupalchecker');
+        assert.deepEqual(summary.range, Range.create(0, 0, 0, 0));
+        assert.equal(limitDiagnostics(diagnostics, diagnostics.length - 1)[diagnostics.length - 1].message, '1 additional drupal-check problems hidden');
+    });
+});
@@ -0,0 +1,85 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { DiagnosticSeverity, TextDocument } from 'vscode-languageserver';
+import { filePathToUri } from '../paths';
+import { RequirementsCheck } from '../requirements';
+import { CheckerSettings } from '../settings';
+import { createTree, removeTree } from './helper';
+
+const settings = <CheckerSettings>{ targetCoreVersion: '10' };
+
+function check(fileName: string, text: string): { line: number; start: number; end: number; message: string; severity: number }[] {
+    const document = TextDocument.create(filePathToUri(path.resolve('/project', fileName)), 'yaml', 1, text);
+    return new RequirementsCheck().check(document, settings).map(diagnostic => ({
+        line: diagnostic.range.start.line,
+        start: diagnostic.range.start.character,
+        end: diagnostic.range.end.character,
+        message: diagnostic.message,
+        severity: diagnostic.severity,
+    }));
+}
+
+describe('RequirementsCheck', () => {
+    it('checks info and composer.json files only', () => {
+        assert.equal(RequirementsCheck.isRequirementsFile('/project/web/modules/example/example.info.yml'), true);
+        assert.equal(RequirementsCheck.isRequirementsFile('/project/composer.json'), true);
+        assert.equal(RequirementsCheck.isRequirementsFile('/project/example.module'), false);
+    });
+
+    it('reports nothing without a target version', () => {
+        const document = TextDocument.create('file:///project/example.info.yml', 'yaml', 1, 'name: Example\n');
+        assert.deepEqual(new RequirementsCheck().check(document, <CheckerSettings>{ targetCoreVersion: '' }), []);
+    });
+
+    it('accepts info files allowing the target version', () => {
+        assert.deepEqual(check('example.info.yml', "name: Example\ncore_version_requirement: '^9.5 || ^10' # Upgraded.\n"), []);
+    });
+
+    it('reports requirements not allowing the target version on their key', () => {
+        assert.deepEqual(check('example.info.yml', 'name: Example\ncore_version_requirement: ^8.8 || ^9\n'), [{
+            line: 1, start: 0, end: 24, message: 'core_version_requirement "^8.8 || ^9" does not allow Drupal 10.', severity: DiagnosticSeverity.Error,
+        }]);
+    });
+
+    it('reports legacy and missing requirements', () => {
+        assert.deepEqual(check('example.info.yml', 'name: Example\ncore: 8.x\n').map(problem => [problem.line, problem.start, problem.end]), [[1, 0, 4]]);
+        assert.deepEqual(check('example.info.yml', 'type: module\nname: Example\n').map(problem => [problem.line, problem.start, problem.end]), [[1, 0, 4]]);
+    });
+
+    it('warns about constraints it cannot parse', () => {
+        assert.deepEqual(check('example.info.yml', 'core_version_requirement: next\n').map(problem => problem.severity), [DiagnosticSeverity.Warning]);
+    });
+
+    it('skips the info files of Drupal core', () => {
+        assert.deepEqual(check('system.info.yml', 'name: System\nversion: VERSION\n'), []);
+    });
+
+    it('checks the drupal/core constraints of composer.json files', () => {
+        const composer = JSON.stringify({
+            name: 'drupal/example',
+            require: { 'drupal/core-recommended': '^9.5', 'drupal/token': '^1.0' },
+            'require-dev': { 'drupal/core': '^9' },
+            extra: { require: { 'drupal/core': '^9' } },
+        }, null, 4);
+        assert.deepEqual(check('composer.json', composer), [{
+            line: 3, start: 8, end: 33, message: 'The drupal/core-recommended constraint "^9.5" does not allow Drupal 10.', severity: DiagnosticSeverity.Error,
+        }]);
+    });
+
+    it('checks the files of a folder, skipping vendor and Drupal core', () => {
+        const root = createTree({
+            'composer.json': JSON.stringify({ require: { 'drupal/core': '^10' } }),
+            'web/core/lib/Drupal.php': '',
+            'web/core/modules/system/system.info.yml': 'name: System\ncore_version_requirement: ^9\n',
+            'web/modules/custom/old/old.info.yml': 'name: Old\ncore: 8.x\n',
+            'web/modules/custom/new/new.info.yml': 'name: New\ncore_version_requirement: ^10\n',
+            'vendor/drupal/example/example.info.yml': 'name: Vendor\n',
+        });
+        try {
+            const results = new RequirementsCheck().checkFolder(root, settings);
+            assert.deepEqual(Array.from(results.keys()), [filePathToUri(path.join(root, 'web', 'modules', 'custom', 'old', 'old.info.yml'))]);
+        } finally {
+            removeTree(root);
+        }
+    });
+});
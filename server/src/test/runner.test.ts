@@ -0,0 +1,62 @@
+import * as assert from 'assert';
+import { ProcessRunner } from '../runner';
+
+// Runs a Node script, so the tests do not depend on shell commands.
+function script(code: string): [string, string[]] {
+    return [process.execPath, ['-e', code]];
+}
+
+describe('ProcessRunner', () => {
+    it('collects the output and exit code', async () => {
+        const runner = new ProcessRunner(1);
+        const result = await runner.run('key', ...script('process.stdout.write("out"); process.stderr.write("err"); process.exit(3)'));
+        assert.equal(result.stdout, 'out');
+        assert.equal(result.stderr, 'err');
+        assert.equal(result.exitCode, 3);
+        assert.equal(result.cancelled, false);
+    });
+
+    it('passes the input on stdin', async () => {
+        const runner = new ProcessRunner(1);
+        const [command, args] = script('process.stdin.pipe(process.stdout)');
+        const result = await runner.run('key', command, args, { input: 'text' });
+        assert.equal(result.stdout, 'text');
+    });
+
+    it('cancels the previous run of the same key', async () => {
+        const runner = new ProcessRunner(2);
+        const first = runner.run('file', ...script('setTimeout(() => undefined, 10000)'));
+        const second = runner.run('file', ...script('process.stdout.write("second")'));
+        assert.equal((await first).cancelled, true);
+        assert.equal((await second).stdout, 'second');
+    });
+
+    it('cancels the runs of every mode of a key', async () => {
+        const runner = new ProcessRunner(3);
+        const deprecations = runner.run('file#deprecations', ...script('setTimeout(() => undefined, 10000)'));
+        const analysis = runner.run('file#analysis', ...script('setTimeout(() => undefined, 10000)'));
+        const other = runner.run('file2#analysis', ...script('process.stdout.write("other")'));
+        runner.cancel('file');
+        assert.equal((await deprecations).cancelled, true);
+        assert.equal((await analysis).cancelled, true);
+        const result = await other;
+        assert.equal(result.cancelled, false);
+        assert.equal(result.stdout, 'other');
+    });
+
+    it('queues runs beyond the concurrency limit', async () => {
+        const runner = new ProcessRunner(1);
+        const first = runner.run('a', ...script('setTimeout(() => undefined, 10000)'));
+        const queued = runner.run('b', ...script('process.stdout.write("b")'));
+        runner.cancel('a');
+        assert.equal((await first).cancelled, true);
+        assert.equal((await queued).stdout, 'b');
+    });
+
+    it('kills runs exceeding the timeout', async () => {
+        const runner = new ProcessRunner(1);
+        const [command, args] = script('setTimeout(() => undefined, 10000)');
+        const result = await runner.run('key', command, args, { timeout: 100 });
+        assert.equal(result.timedOut, true);
+    });
+});
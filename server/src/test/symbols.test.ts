@@ -0,0 +1,75 @@
+import * as assert from 'assert';
+import { extractSymbol, findSymbol } from '../symbols';
+import { tokenizeIdentifiers } from '../tokenizer';
+
+describe('tokenizeIdentifiers', () => {
+    it('returns the identifiers of each line with their columns', () => {
+        const lines = tokenizeIdentifiers('<?php\n  drupal_set_message($text);\n');
+        assert.deepEqual(lines[0], []);
+        assert.deepEqual(lines[1], [
+            { name: 'drupal_set_message', line: 1, start: 2, end: 20 },
+            { name: 'text', line: 1, start: 22, end: 26 },
+        ]);
+    });
+
+    it('skips strings, comments and inline HTML', () => {
+        const text = [
+            '<p>drupal_set_message</p><?php',
+            '// drupal_set_message()',
+            '# drupal_set_message()',
+            '/* drupal_set_message() */ $a = "drupal_set_message";',
+            "$b = 'drupal_set_message'; ?>drupal_set_message",
+        ].join('\n');
+        const names = tokenizeIdentifiers(text).map(line => line.map(identifier => identifier.name));
+        assert.deepEqual(names, [[], [], [], ['a'], ['b']]);
+    });
+
+    it('skips heredocs and nowdocs', () => {
+        const text = '<?php\n$a = <<<EOT\ndrupal_set_message\nEOT;\n$b = <<<\'EOT\'\nfoo\n  EOT;\nbar();\n';
+        const names = tokenizeIdentifiers(text).map(line => line.map(identifier => identifier.name));
+        assert.deepEqual(names, [[], ['a'], [], [], ['b'], [], [], ['bar'], []]);
+    });
+
+    it('does not read number suffixes as identifiers', () => {
+        const names = tokenizeIdentifiers('<?php $a = 0x1F + 1e3;').map(line => line.map(identifier => identifier.name));
+        assert.deepEqual(names, [['a']]);
+    });
+
+    it('keeps track of lines across multi-line comments', () => {
+        const lines = tokenizeIdentifiers('<?php /*\n*/ foo();');
+        assert.deepEqual(lines[1], [{ name: 'foo', line: 1, start: 3, end: 6 }]);
+    });
+});
+
+describe('extractSymbol', () => {
+    it('extracts the symbol of deprecation messages', () => {
+        assert.equal(extractSymbol('Call to deprecated function drupal_set_message():'), 'drupal_set_message');
+        assert.equal(extractSymbol('Call to deprecated method urlInfo() of class Drupal\\Core\\Entity\\Entity.'), 'urlInfo');
+        assert.equal(extractSymbol('Call to deprecated static method Drupal\\Core\\Url::fromUri().'), 'fromUri');
+        assert.equal(extractSymbol('Class Example extends deprecated class Drupal\\Core\\Plugin\\Foo.'), 'Foo');
+        assert.equal(extractSymbol('Fetching deprecated class constant EXISTS_REPLACE of class Drupal\\Core\\File\\FileSystemInterface.'), 'EXISTS_REPLACE');
+        assert.equal(extractSymbol('Access to deprecated property $entityManager of class Example.'), 'entityManager');
+    });
+
+    it('extracts the symbol of APIs that no longer exist', () => {
+        assert.equal(extractSymbol('Call to an undefined method Drupal\\Core\\Entity\\EntityManager::getStorage().'), 'getStorage');
+        assert.equal(extractSymbol('Function drupal_set_message not found.'), 'drupal_set_message');
+        assert.equal(extractSymbol('Parameter $a has invalid type Drupal\\Foo\\Bar (unknown class Drupal\\Foo\\Bar).'), 'Bar');
+    });
+
+    it('returns null when the message names no symbol', () => {
+        assert.equal(extractSymbol('Variable $foo might not be defined.'), null);
+    });
+});
+
+describe('findSymbol', () => {
+    it('finds the first identifier naming the symbol, ignoring case', () => {
+        const [line] = tokenizeIdentifiers('<?php $x = Drupal_Set_Message("drupal_set_message") . drupal_set_message();');
+        assert.deepEqual(findSymbol(line, 'drupal_set_message'), { name: 'Drupal_Set_Message', line: 0, start: 11, end: 29 });
+    });
+
+    it('returns null when the line does not use the symbol', () => {
+        const [line] = tokenizeIdentifiers('<?php foo();');
+        assert.equal(findSymbol(line, 'bar'), null);
+    });
+});
@@ -0,0 +1,65 @@
+import * as assert from 'assert';
+import { DiagnosticSeverity } from 'vscode-languageserver';
+import { DeprecationInfo } from '../deprecation';
+import { CheckerSettings } from '../settings';
+import { blocksUpgrade, compareVersions, getTargetSeverity } from '../target';
+
+function createDeprecation(removedIn: string | null): DeprecationInfo {
+    return { symbol: 'foo()', deprecatedIn: null, removedIn, replacement: null, url: null };
+}
+
+function createSettings(settings: Partial<CheckerSettings>): CheckerSettings {
+    return <CheckerSettings>Object.assign({
+        targetCoreVersion: '10',
+        blockingFindings: 'highlight',
+        nonBlockingFindings: 'downgrade',
+        unknownRemovalVersion: 'blocking',
+    }, settings);
+}
+
+describe('compareVersions', () => {
+    it('compares versions part by part', () => {
+        assert.ok(compareVersions('9.5.0', '10') < 0);
+        assert.ok(compareVersions('10.1', '10.0.9') > 0);
+        assert.equal(compareVersions('10', '10.0.0'), 0);
+    });
+});
+
+describe('blocksUpgrade', () => {
+    it('blocks the versions the API is removed from', () => {
+        assert.equal(blocksUpgrade('10.0.0', '10'), true);
+        assert.equal(blocksUpgrade('9.0.0', '10.1'), true);
+        assert.equal(blocksUpgrade('11.0.0', '10'), false);
+        assert.equal(blocksUpgrade('10.3.0', '10.2'), false);
+    });
+});
+
+describe('getTargetSeverity', () => {
+    it('keeps the severity without a target version', () => {
+        const settings = createSettings({ targetCoreVersion: '' });
+        assert.equal(getTargetSeverity(createDeprecation('10.0.0'), DiagnosticSeverity.Warning, settings), DiagnosticSeverity.Warning);
+    });
+
+    it('raises blocking deprecations to errors', () => {
+        const settings = createSettings({});
+        assert.equal(getTargetSeverity(createDeprecation('10.0.0'), DiagnosticSeverity.Warning, settings), DiagnosticSeverity.Error);
+        const shown = createSettings({ blockingFindings: 'show' });
+        assert.equal(getTargetSeverity(createDeprecation('10.0.0'), DiagnosticSeverity.Warning, shown), DiagnosticSeverity.Warning);
+    });
+
+    it('lowers, hides or keeps the other deprecations', () => {
+        const deprecation = createDeprecation('11.0.0');
+        assert.equal(getTargetSeverity(deprecation, DiagnosticSeverity.Warning, createSettings({})), DiagnosticSeverity.Information);
+        assert.equal(getTargetSeverity(deprecation, DiagnosticSeverity.Hint, createSettings({})), DiagnosticSeverity.Hint);
+        assert.equal(getTargetSeverity(deprecation, DiagnosticSeverity.Warning, createSettings({ nonBlockingFindings: 'hide' })), null);
+        assert.equal(getTargetSeverity(deprecation, DiagnosticSeverity.Warning, createSettings({ nonBlockingFindings: 'show' })), DiagnosticSeverity.Warning);
+    });
+
+    it('weighs deprecations of unknown removal version as configured', () => {
+        [createDeprecation(null), null].forEach(deprecation => {
+            assert.equal(getTargetSeverity(deprecation, DiagnosticSeverity.Warning, createSettings({})), DiagnosticSeverity.Error);
+            const nonBlocking = createSettings({ unknownRemovalVersion: 'nonBlocking' });
+            assert.equal(getTargetSeverity(deprecation, DiagnosticSeverity.Warning, nonBlocking), DiagnosticSeverity.Information);
+        });
+    });
+});
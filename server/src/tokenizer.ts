@@ -0,0 +1,121 @@
+"use strict";
+
+export interface PhpIdentifier {
+    name: string;
+    line: number;
+    start: number;
+    end: number;
+}
+
+const identifierStart = /[A-Za-z_\u0080-\uffff]/;
+const identifierPart = /[A-Za-z0-9_\u0080-\uffff]/;
+const heredocStart = /<<<[ \t]*(["']?)([A-Za-z_][A-Za-z0-9_]*)\1\r?\n/y;
+
+/**
+ * Collect the identifiers of the PHP code in a text, grouped by line. Strings,
+ * comments and inline HTML are skipped, so only real code is returned.
+ * Variables are returned without their leading `$`.
+ *
+ * @param text The text of a PHP document.
+ * @return PhpIdentifier[][] The identifiers of each line.
+ */
+export function tokenizeIdentifiers(text: string): PhpIdentifier[][] {
+    const lines: PhpIdentifier[][] = text.split('\n').map(() => []);
+    const length = text.length;
+    let line = 0;
+    let lineStart = 0;
+    let inPhp = false;
+    let i = 0;
+
+    // Move forward to the given offset, keeping track of lines.
+    const advanceTo = (end: number) => {
+        for (; i < end && i < length; i++) {
+            if (text[i] === '\n') {
+                line++;
+                lineStart = i + 1;
+            }
+        }
+    };
+
+    while (i < length) {
+        if (!inPhp) {
+            const open = text.indexOf('<?', i);
+            if (open === -1) {
+                break;
+            }
+            const tagLength = text.startsWith('<?php', open) ? 5 : text.startsWith('<?=', open) ? 3 : 2;
+            advanceTo(open + tagLength);
+            inPhp = true;
+            continue;
+        }
+
+        const ch = text[i];
+        const next = text[i + 1];
+        if (ch === '?' && next === '>') {
+            advanceTo(i + 2);
+            inPhp = false;
+        } else if ((ch === '/' && next === '/') || (ch === '#' && next !== '[')) {
+            // Line comments end at the line break or the closing tag.
+            const lineEnd = text.indexOf('\n', i);
+            const tagEnd = text.indexOf('?>', i);
+            const ends = [lineEnd, tagEnd].filter(end => end !== -1);
+            advanceTo(ends.length > 0 ? Math.min(...ends) : length);
+        } else if (ch === '/' && next === '*') {
+            const end = text.indexOf('*/', i + 2);
+            advanceTo(end === -1 ? length : end + 2);
+        } else if (ch === '\'' || ch === '"' || ch === '`') {
+            advanceTo(findStringEnd(text, i));
+        } else if (ch === '<' && text.startsWith('<<<', i)) {
+            advanceTo(findHeredocEnd(text, i));
+        } else if (identifierStart.test(ch)) {
+            let end = i + 1;
+            while (end < length && identifierPart.test(text[end])) {
+                end++;
+            }
+            lines[line].push({ name: text.slice(i, end), line, start: i - lineStart, end: end - lineStart });
+            advanceTo(end);
+        } else if (/[0-9]/.test(ch)) {
+            // Skip numbers so suffixes such as 0x1F are not read as identifiers.
+            let end = i + 1;
+            while (end < length && identifierPart.test(text[end])) {
+                end++;
+            }
+            advanceTo(end);
+        } else {
+            advanceTo(i + 1);
+        }
+    }
+
+    return lines;
+}
+
+/**
+ * Find the offset just after the quoted string starting at the given offset.
+ */
+export function findStringEnd(text: string, start: number): number {
+    const quote = text[start];
+    for (let i = start + 1; i < text.length; i++) {
+        if (text[i] === '\\') {
+            i++;
+        } else if (text[i] === quote) {
+            return i + 1;
+        }
+    }
+    return text.length;
+}
+
+/**
+ * Find the offset just after the heredoc or nowdoc starting at the given
+ * offset. Returns the offset after `<<<` if it does not start one.
+ */
+function findHeredocEnd(text: string, start: number): number {
+    heredocStart.lastIndex = start;
+    const match = heredocStart.exec(text);
+    if (match === null) {
+        return start + 3;
+    }
+    const closing = new RegExp(`^[ \\t]*${match[2]}(?![A-Za-z0-9_])`, 'gm');
+    closing.lastIndex = start + match[0].length;
+    const end = closing.exec(text);
+    return end !== null ? end.index + end[0].length : text.length;
+}